@@ -18,6 +18,7 @@ import { EmailModule } from './modules/email/email.module';
 import { MessagingModule } from './modules/messeging/messaging.module';
 import { ConfirmationModule } from './modules/confirmation/confirmation.module';
 import { QueueModule } from './modules/queue/queue.module';
+import { NotificationPreferencesModule } from './modules/notification-preferences/notification-preferences.module';
 
 @Module({
   imports: [
@@ -46,6 +47,7 @@ import { QueueModule } from './modules/queue/queue.module';
     MessagingModule,
     ConfirmationModule,
     QueueModule,
+    NotificationPreferencesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
+import { createMessagingIoAdapter } from './modules/messeging/adapters';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -14,6 +15,9 @@ async function bootstrap() {
   });
   
   app.useGlobalPipes(new ValidationPipe());
+
+  // Socket.io adapter chosen by REALTIME_ADAPTER, so realtime events work across instances
+  app.useWebSocketAdapter(createMessagingIoAdapter(app));
   await app.listen(process.env.PORT ?? 3001);
 }
 bootstrap();
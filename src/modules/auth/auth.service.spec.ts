@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [AuthService],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  describe('verifyToken', () => {
+    it('should resolve the user id and roles from a valid token', async () => {
+      const token = await jwtService.signAsync({
+        sub: 'user-123',
+        role: 'support',
+      });
+
+      await expect(service.verifyToken(token)).resolves.toEqual({
+        userId: 'user-123',
+        roles: ['support'],
+      });
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = await jwtService.signAsync(
+        { sub: 'user-123' },
+        { secret: 'other-secret' },
+      );
+
+      await expect(service.verifyToken(token)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a missing token', async () => {
+      await expect(service.verifyToken(undefined)).rejects.toThrow(
+        'Missing access token',
+      );
+    });
+
+    it('should reject a token without a user id', async () => {
+      const token = await jwtService.signAsync({ role: 'support' });
+
+      await expect(service.verifyToken(token)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('extractBearerToken', () => {
+    it('should return the token of a bearer header', () => {
+      expect(service.extractBearerToken('Bearer abc.def.ghi')).toBe(
+        'abc.def.ghi',
+      );
+    });
+
+    it('should ignore other schemes', () => {
+      expect(service.extractBearerToken('Basic abc')).toBeNull();
+    });
+  });
+});
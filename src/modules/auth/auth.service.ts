@@ -0,0 +1,53 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  AccessTokenPayload,
+  AuthenticatedUser,
+} from './interfaces/authenticated-user.interface';
+
+@Injectable()
+export class AuthService {
+  constructor(private readonly jwtService: JwtService) {}
+
+  /**
+   * Verify an HS256 access token and resolve the user it was issued for
+   */
+  async verifyToken(
+    token: string | undefined | null,
+  ): Promise<AuthenticatedUser> {
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    let payload: AccessTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<AccessTokenPayload>(token, {
+        algorithms: ['HS256'],
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    // Tokens issued by the main backend carry the user id in `sub`, older ones in `userId`/`id`
+    const userId = payload.sub || payload.userId || payload.id;
+    if (!userId) {
+      throw new UnauthorizedException('Access token does not identify a user');
+    }
+
+    const roles = payload.roles ?? (payload.role ? [payload.role] : []);
+
+    return { userId: String(userId), roles };
+  }
+
+  /**
+   * Extract a bearer token from an Authorization header value
+   */
+  extractBearerToken(authorization: string | undefined | null): string | null {
+    if (!authorization) {
+      return null;
+    }
+
+    const [scheme, token] = authorization.split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+  }
+}
@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import {
+  AuthenticatedRequest,
+  AuthenticatedUser,
+} from '../interfaces/authenticated-user.interface';
+
+/**
+ * Inject the user resolved by `JwtAuthGuard`, or a single property of it
+ */
+export const CurrentUser = createParamDecorator(
+  (property: keyof AuthenticatedUser | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+
+    return property ? user?.[property] : user;
+  },
+);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ROLES_KEY = 'roles';
+
+// Staff roles that may act on conversations they do not take part in
+export const SUPPORT_ROLES = ['support', 'admin'];
+
+/**
+ * Restrict a route to callers holding at least one of the roles; use with `RolesGuard`
+ */
+export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
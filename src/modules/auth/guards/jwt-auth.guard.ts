@@ -0,0 +1,24 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { AuthService } from '../auth.service';
+import { AuthenticatedRequest } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Resolves the caller from the `Authorization: Bearer <token>` header and
+ * attaches it to the request for `@CurrentUser()`
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const authorization = request.headers.authorization;
+
+    const token = this.authService.extractBearerToken(
+      Array.isArray(authorization) ? authorization[0] : authorization,
+    );
+    request.user = await this.authService.verifyToken(token);
+
+    return true;
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuthenticatedRequest } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Checks the roles required by `@Roles()`; must run after `JwtAuthGuard`
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(ROLES_KEY, [context.getHandler(), context.getClass()]);
+    if (!requiredRoles?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!user?.roles.some((role) => requiredRoles.includes(role))) {
+      throw new ForbiddenException('You do not have permission to do this');
+    }
+
+    return true;
+  }
+}
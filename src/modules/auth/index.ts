@@ -0,0 +1,7 @@
+export * from './interfaces/authenticated-user.interface';
+export * from './auth.service';
+export * from './guards/jwt-auth.guard';
+export * from './guards/roles.guard';
+export * from './decorators/current-user.decorator';
+export * from './decorators/roles.decorator';
+export * from './auth.module';
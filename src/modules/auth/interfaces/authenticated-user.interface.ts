@@ -0,0 +1,19 @@
+export interface AuthenticatedUser {
+  userId: string;
+  roles: string[];
+}
+
+export interface AccessTokenPayload {
+  sub?: string;
+  userId?: string;
+  id?: string;
+  role?: string;
+  roles?: string[];
+  iat?: number;
+  exp?: number;
+}
+
+export interface AuthenticatedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  user?: AuthenticatedUser;
+}
@@ -0,0 +1,2 @@
+export * from './postgres.adapter';
+export * from './messaging-io.adapter';
@@ -0,0 +1,77 @@
+import { INestApplication, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import type { Server, ServerOptions } from 'socket.io';
+import { Pool } from 'pg';
+import { createPostgresAdapter } from './postgres.adapter';
+
+type AdapterConstructor = ServerOptions['adapter'];
+
+// One connection stays checked out for LISTEN, the others send NOTIFY and read attachments
+const REALTIME_POOL_SIZE = 3;
+
+/**
+ * IoAdapter that installs a cluster adapter on every socket.io server it creates,
+ * so emits reach sockets connected to other instances
+ */
+export class MessagingIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplication,
+    private readonly adapterConstructor?: AdapterConstructor,
+    private readonly pool?: Pool,
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+
+  async dispose() {
+    await this.pool?.end();
+  }
+}
+
+/**
+ * Pick the socket.io adapter from REALTIME_ADAPTER ("memory" for a single instance, "postgres" to scale out)
+ */
+export function createMessagingIoAdapter(
+  app: INestApplication,
+): MessagingIoAdapter {
+  const logger = new Logger(MessagingIoAdapter.name);
+  const configService = app.get(ConfigService);
+  const driver = configService.get<string>('REALTIME_ADAPTER') ?? 'memory';
+
+  switch (driver) {
+    case 'memory':
+      return new MessagingIoAdapter(app);
+    case 'postgres': {
+      // A pool of its own, so the LISTEN connection never holds one of TypeORM's
+      const pool = new Pool({
+        connectionString: configService.get<string>('DATABASE_URL'),
+        max: REALTIME_POOL_SIZE,
+        ssl: {
+          rejectUnauthorized: false, // Same as the TypeORM connection (NeonDB)
+        },
+      });
+      pool.on('error', (error) => {
+        logger.error(`Idle realtime connection failed: ${error.message}`);
+      });
+      logger.log('Relaying socket events between instances through Postgres');
+      return new MessagingIoAdapter(
+        app,
+        createPostgresAdapter(pool, {
+          channelPrefix:
+            configService.get<string>('REALTIME_CHANNEL_PREFIX') ?? 'socket_io',
+        }),
+        pool,
+      );
+    }
+    default:
+      throw new Error(`Unsupported realtime adapter: ${driver}`);
+  }
+}
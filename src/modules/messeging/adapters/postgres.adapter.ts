@@ -0,0 +1,297 @@
+import { Logger } from '@nestjs/common';
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+  type ServerId,
+} from 'socket.io-adapter';
+
+// NOTIFY payloads are capped at 8000 bytes; bigger events travel through the SocketIoAttachment table
+const DEFAULT_PAYLOAD_THRESHOLD = 8000;
+const ATTACHMENT_TABLE = '"SocketIoAttachment"';
+const DEFAULT_CLEANUP_INTERVAL_MS = 30000;
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * The subset of a node-postgres Pool the adapter needs
+ */
+export interface PostgresPool {
+  query<T = Record<string, unknown>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: T[] }>;
+  connect(): Promise<PostgresPoolClient>;
+}
+
+interface PostgresPoolClient {
+  query(text: string): Promise<unknown>;
+  on(
+    event: 'notification',
+    listener: (notification: { channel: string; payload?: string }) => void,
+  ): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  release(error?: Error | boolean): void;
+}
+
+export interface PostgresAdapterOptions extends ClusterAdapterOptions {
+  channelPrefix?: string;
+  payloadThreshold?: number;
+  cleanupIntervalMs?: number;
+}
+
+type ChannelHandler = (body: unknown) => void;
+
+/**
+ * One LISTEN connection per process, shared by the adapters of every namespace
+ */
+export class PostgresChannelHub {
+  private readonly logger = new Logger('PostgresAdapter');
+  private readonly handlers = new Map<string, ChannelHandler>();
+  private readonly payloadThreshold: number;
+  private readonly cleanupIntervalMs: number;
+  private client: PostgresPoolClient | null = null;
+  private connecting: Promise<PostgresPoolClient> | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly pool: PostgresPool,
+    options: PostgresAdapterOptions,
+  ) {
+    this.payloadThreshold =
+      options.payloadThreshold ?? DEFAULT_PAYLOAD_THRESHOLD;
+    this.cleanupIntervalMs =
+      options.cleanupIntervalMs ?? DEFAULT_CLEANUP_INTERVAL_MS;
+  }
+
+  async listen(channel: string, handler: ChannelHandler): Promise<void> {
+    this.handlers.set(channel, handler);
+    const client = await this.getClient();
+    await client.query(`LISTEN ${this.quoteIdentifier(channel)}`);
+  }
+
+  async unlisten(channel: string): Promise<void> {
+    this.handlers.delete(channel);
+    if (!this.client) {
+      return;
+    }
+
+    await this.client.query(`UNLISTEN ${this.quoteIdentifier(channel)}`);
+    if (this.handlers.size === 0) {
+      this.close();
+    }
+  }
+
+  async notify(channel: string, body: unknown): Promise<void> {
+    let payload = JSON.stringify(body);
+
+    if (Buffer.byteLength(payload) > this.payloadThreshold) {
+      this.startAttachmentCleanup();
+      const { rows } = await this.pool.query<{ id: string }>(
+        `INSERT INTO ${ATTACHMENT_TABLE} ("payload") VALUES ($1) RETURNING "id"`,
+        [payload],
+      );
+      payload = JSON.stringify({ attachmentId: String(rows[0].id) });
+    }
+
+    await this.pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+  }
+
+  private close() {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.client?.release();
+    this.client = null;
+  }
+
+  private getClient(): Promise<PostgresPoolClient> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+
+    this.connecting ??= this.connect().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async connect(): Promise<PostgresPoolClient> {
+    const client = await this.pool.connect();
+
+    client.on('notification', ({ channel, payload }) => {
+      this.handleNotification(channel, payload).catch((error: Error) => {
+        this.logger.error(
+          `Error handling notification on ${channel}: ${error.message}`,
+        );
+      });
+    });
+
+    // Reconnect and LISTEN again, or events from other instances are lost for good
+    client.on('error', (error: Error) => {
+      this.logger.error(`LISTEN connection failed: ${error.message}`);
+      client.release(error);
+      if (this.client === client) {
+        this.client = null;
+        setTimeout(() => void this.relisten(), RECONNECT_DELAY_MS);
+      }
+    });
+
+    this.client = client;
+    return client;
+  }
+
+  private async relisten(): Promise<void> {
+    if (this.handlers.size === 0) {
+      return;
+    }
+
+    try {
+      const client = await this.getClient();
+      for (const channel of this.handlers.keys()) {
+        await client.query(`LISTEN ${this.quoteIdentifier(channel)}`);
+      }
+      this.logger.log(`Re-subscribed to ${this.handlers.size} channel(s)`);
+    } catch (error) {
+      this.logger.error(`Error re-subscribing: ${(error as Error).message}`);
+      setTimeout(() => void this.relisten(), RECONNECT_DELAY_MS);
+    }
+  }
+
+  private async handleNotification(
+    channel: string,
+    payload?: string,
+  ): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (!handler || !payload) {
+      return;
+    }
+
+    let body: unknown = JSON.parse(payload);
+    if (this.isAttachmentReference(body)) {
+      const { rows } = await this.pool.query<{ payload: string }>(
+        `SELECT "payload" FROM ${ATTACHMENT_TABLE} WHERE "id" = $1`,
+        [body.attachmentId],
+      );
+      if (rows.length === 0) {
+        return;
+      }
+      body = JSON.parse(rows[0].payload);
+    }
+
+    handler(body);
+  }
+
+  private isAttachmentReference(
+    body: unknown,
+  ): body is { attachmentId: string } {
+    return (
+      typeof body === 'object' &&
+      body !== null &&
+      'attachmentId' in body &&
+      !('uid' in body)
+    );
+  }
+
+  // Oversized payloads are rare, so the table is only swept once one shows up
+  private startAttachmentCleanup() {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      this.pool
+        .query(
+          `DELETE FROM ${ATTACHMENT_TABLE} WHERE "createdAt" < now() - $1::interval`,
+          [`${this.cleanupIntervalMs} milliseconds`],
+        )
+        .catch((error: Error) => {
+          this.logger.error(`Error cleaning up attachments: ${error.message}`);
+        });
+    }, this.cleanupIntervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  private quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+}
+
+/**
+ * socket.io adapter that relays broadcasts, room changes and fetchSockets
+ * requests between instances through Postgres LISTEN/NOTIFY
+ */
+export class PostgresAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly logger = new Logger(PostgresAdapter.name);
+  private readonly channel: string;
+
+  constructor(
+    nsp: Namespace,
+    private readonly hub: PostgresChannelHub,
+    options: PostgresAdapterOptions,
+  ) {
+    super(nsp, options);
+    this.channel = `${options.channelPrefix ?? 'socket_io'}#${nsp.name}`;
+
+    Promise.all([
+      this.hub.listen(this.channel, (message) =>
+        this.onMessage(message as ClusterMessage),
+      ),
+      this.hub.listen(this.responseChannel(this.uid), (response) =>
+        this.onResponse(response as ClusterResponse),
+      ),
+    ])
+      .then(() => this.init())
+      .catch((error: Error) => {
+        this.logger.error(
+          `Error subscribing namespace ${nsp.name}: ${error.message}`,
+        );
+      });
+  }
+
+  close() {
+    super.close();
+    Promise.all([
+      this.hub.unlisten(this.channel),
+      this.hub.unlisten(this.responseChannel(this.uid)),
+    ]).catch((error: Error) => {
+      this.logger.error(`Error unsubscribing: ${error.message}`);
+    });
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.hub.notify(this.channel, message);
+    // Connection state recovery is not supported, so there is no offset
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ): Promise<void> {
+    await this.hub.notify(this.responseChannel(requesterUid), response);
+  }
+
+  // Responses only go to the instance that asked, e.g. for fetchSockets
+  private responseChannel(uid: ServerId): string {
+    return `${this.channel}#${uid}`;
+  }
+}
+
+/**
+ * Build the adapter constructor to pass to `server.adapter()`
+ */
+export function createPostgresAdapter(
+  pool: PostgresPool,
+  options: PostgresAdapterOptions = {},
+) {
+  const hub = new PostgresChannelHub(pool, options);
+
+  // socket.io instantiates the adapter with `new`, so this cannot be an arrow function
+  return function (nsp: Namespace) {
+    return new PostgresAdapter(nsp, hub, options);
+  };
+}
@@ -0,0 +1,16 @@
+import { IsOptional, IsBoolean, IsDateString } from 'class-validator';
+
+export class UpdateConversationSettingsDto {
+  // Pass null to unmute
+  @IsOptional()
+  @IsDateString()
+  mutedUntil?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  archived?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  pinned?: boolean;
+}
@@ -1,11 +1,22 @@
-import { IsString, IsArray, ArrayMinSize, ArrayMaxSize, IsOptional, Matches } from 'class-validator';
+import {
+  IsString,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsOptional,
+  Matches,
+} from 'class-validator';
+
+export const MAX_CONVERSATION_PARTICIPANTS = 50;
 
 export class CreateConversationDto {
   @IsArray()
   @IsString({ each: true })
   @Matches(/^[a-zA-Z0-9_-]+$/, { each: true, message: 'Each userId must be a valid ID format' })
   @ArrayMinSize(2)
-  @ArrayMaxSize(2)
+  @ArrayMaxSize(MAX_CONVERSATION_PARTICIPANTS)
+  @ArrayUnique()
   userIds: string[];
 
   @IsOptional()
@@ -17,4 +28,17 @@ export class CreateConversationDto {
   serviceId?: string;
 }
 
+export class AddParticipantsDto {
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    each: true,
+    message: 'Each userId must be a valid ID format',
+  })
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_CONVERSATION_PARTICIPANTS)
+  @ArrayUnique()
+  userIds: string[];
+}
+
 //later add title for conversation
\ No newline at end of file
@@ -1,22 +1,84 @@
-import { IsString, IsUUID, IsNotEmpty, Matches, IsEmail, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsUUID,
+  IsNotEmpty,
+  Matches,
+  IsEmail,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  ValidateIf,
+  MaxLength,
+  IsDateString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MAX_CONVERSATION_PARTICIPANTS } from './create-conversation.dto';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+export class MessageRecipientDto {
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, { message: 'userId must be a valid ID format' })
+  userId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEmail()
+  email: string;
+}
 
 export class CreateMessageDto {
+  // May be empty when the message only carries attachments
   @IsString()
+  @ValidateIf((dto: CreateMessageDto) => !dto.attachmentIds?.length)
   @IsNotEmpty()
   content: string;
 
+  // Filled from the authenticated user when omitted
+  @IsOptional()
   @IsString()
   @Matches(/^[a-zA-Z0-9_-]+$/, { message: 'fromId must be a valid ID format' })
   fromId: string;
 
+  // Omit to address the whole conversation (required for group conversations)
+  @IsOptional()
   @IsString()
   @Matches(/^[a-zA-Z0-9_-]+$/, { message: 'toId must be a valid ID format' })
-  toId: string;
+  toId?: string;
 
   @IsString()
   @IsUUID()
   conversationId: string;
 
+  // Quote an earlier message of the same conversation
+  @IsOptional()
+  @IsUUID()
+  replyToId?: string;
+
+  // Reuse the same value when retrying a send; the stored message is returned instead of a duplicate
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: 'clientMessageId must be a valid ID format',
+  })
+  clientMessageId?: string;
+
+  // Ids returned by POST messaging/attachments
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @ArrayMaxSize(MAX_ATTACHMENTS_PER_MESSAGE)
+  attachmentIds?: string[];
+
+  // Hold the message and send it at this time instead of now (ISO 8601)
+  @IsOptional()
+  @IsDateString()
+  scheduledFor?: string;
+
   // Optional user data for email notifications
   @IsOptional()
   @IsString()
@@ -35,4 +97,12 @@ export class CreateMessageDto {
   @IsOptional()
   @IsEmail()
   recipientEmail?: string;
+
+  // Email data for each participant of a group conversation; recipientName/recipientEmail cover direct messages
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_CONVERSATION_PARTICIPANTS)
+  @ValidateNested({ each: true })
+  @Type(() => MessageRecipientDto)
+  recipients?: MessageRecipientDto[];
 }
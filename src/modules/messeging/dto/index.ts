@@ -2,6 +2,13 @@
 export * from './create-conversation.dto';
 export * from './create-message.dto';
 
+// Update DTOs
+export * from './update-message.dto';
+export * from './reaction.dto';
+export * from './attachment.dto';
+export * from './conversation-settings.dto';
+export * from './moderation.dto';
+
 // Query DTOs
 export * from './query.dto';
 
@@ -0,0 +1,64 @@
+import {
+  IsString,
+  IsNotEmpty,
+  Matches,
+  IsIn,
+  IsOptional,
+  MaxLength,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import type {
+  MessageReportReason,
+  MessageReportStatus,
+} from '../entities/message-report.entity';
+
+export class BlockUserDto {
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, { message: 'userId must be a valid ID format' })
+  userId: string;
+}
+
+export class ReportMessageDto {
+  @IsIn(['spam', 'harassment', 'inappropriate', 'scam', 'other'], {
+    message:
+      'reason must be one of "spam", "harassment", "inappropriate", "scam" or "other"',
+  })
+  reason: MessageReportReason;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class GetReportsDto {
+  @IsOptional()
+  @IsIn(['open', 'resolved', 'dismissed'], {
+    message: 'status must be one of "open", "resolved" or "dismissed"',
+  })
+  status?: MessageReportStatus = 'open';
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+}
+
+export class UpdateReportDto {
+  @IsIn(['resolved', 'dismissed'], {
+    message: 'status must be either "resolved" or "dismissed"',
+  })
+  status: 'resolved' | 'dismissed';
+}
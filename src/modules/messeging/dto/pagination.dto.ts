@@ -1,4 +1,10 @@
-import { ConversationResponseDto, MessageResponseDto } from './response.dto';
+import {
+  ConversationResponseDto,
+  ConversationSettingsResponseDto,
+  MessageResponseDto,
+  MessageSearchResultDto,
+  MessageReportWithContextDto,
+} from './response.dto';
 
 export class PaginatedResponse<T> {
   data: T[];
@@ -11,8 +17,24 @@ export class PaginatedResponse<T> {
 export class PaginatedConversationsDto extends PaginatedResponse<ConversationResponseDto> {}
 export class PaginatedMessagesDto extends PaginatedResponse<MessageResponseDto> {}
 
+export class PaginatedSearchResultsDto extends PaginatedResponse<MessageSearchResultDto> {}
+export class PaginatedReportsDto extends PaginatedResponse<MessageReportWithContextDto> {}
+
+export class CursorPaginatedMessagesDto {
+  data: MessageResponseDto[];
+  limit: number;
+  hasMore: boolean;
+  // Pass back as the same cursor parameter to continue in the same direction
+  nextCursor: string | null;
+  // Pass back as `since` to fetch everything that changes from now on
+  syncCursor: string | null;
+}
+
 export class MessageDeliveryStatusDto {
   messageId: string;
+  conversationId: string;
+  fromId: string;
+  deliveredTo: string;
   delivered: boolean;
   deliveredAt?: Date;
 }
@@ -20,4 +42,5 @@ export class MessageDeliveryStatusDto {
 export class ConversationWithLastMessageDto extends ConversationResponseDto {
   lastMessage?: MessageResponseDto;
   unreadCount?: number;
+  settings?: ConversationSettingsResponseDto;
 }
@@ -1,4 +1,16 @@
-import { IsOptional, IsUUID, IsString, IsInt, Min, Matches, IsIn } from 'class-validator';
+import {
+  IsOptional,
+  IsUUID,
+  IsString,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  IsIn,
+  IsNotEmpty,
+  MaxLength,
+  IsDateString,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class GetConversationsDto {
@@ -34,12 +46,106 @@ export class GetMessagesDto {
   @Transform(({ value }) => parseInt(value))
   @IsInt()
   @Min(1)
+  @Max(100)
   limit?: number = 20;
 
   @IsOptional()
   @IsString()
   @IsIn(['asc', 'desc'], { message: 'order must be either "asc" or "desc"' })
   order?: 'asc' | 'desc' = 'asc';
+
+  // Keyset pagination; implied when any cursor is given
+  @IsOptional()
+  @IsString()
+  @IsIn(['offset', 'cursor'], {
+    message: 'pagination must be either "offset" or "cursor"',
+  })
+  pagination?: 'offset' | 'cursor' = 'offset';
+
+  // Messages older than this cursor
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  // Messages newer than this cursor
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  // Messages created or changed (edited, read, deleted) after this sync cursor
+  @IsOptional()
+  @IsString()
+  since?: string;
+}
+
+export class SearchMessagesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  // Only search this conversation
+  @IsOptional()
+  @IsUUID()
+  conversationId?: string;
+
+  // Only search conversations shared with this user
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: 'withUserId must be a valid ID format',
+  })
+  withUserId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class DeleteMessageQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsIn(['me', 'everyone'], {
+    message: 'scope must be either "me" or "everyone"',
+  })
+  scope?: 'me' | 'everyone' = 'everyone';
+}
+
+export class ExportConversationQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'csv', 'txt'], {
+    message: 'format must be one of "json", "csv" or "txt"',
+  })
+  format?: 'json' | 'csv' | 'txt' = 'json';
+}
+
+export class GetScheduledMessagesDto {
+  @IsOptional()
+  @IsUUID()
+  conversationId?: string;
+
+  @IsOptional()
+  @IsIn(['pending', 'sent', 'cancelled', 'failed'], {
+    message: 'status must be one of "pending", "sent", "cancelled" or "failed"',
+  })
+  status?: 'pending' | 'sent' | 'cancelled' | 'failed' = 'pending';
 }
 
 export class MarkMessageReadDto {
@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class ReactToMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  emoji: string;
+}
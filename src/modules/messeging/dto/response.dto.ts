@@ -1,8 +1,12 @@
+import type { ContentDetectionType } from '../entities/message.entity';
+
 export class ConversationResponseDto {
   id: string;
   userIds: string[];
   title: string | null;
+  ownerId?: string | null;
   serviceId?: string | null;
+  lastMessageAt?: Date | null;
   messages?: MessageResponseDto[];
 }
 
@@ -10,8 +14,137 @@ export class MessageResponseDto {
   id: string;
   content: string;
   fromId: string;
-  toId: string;
+  toId: string | null;
   conversationId: string;
+  clientMessageId: string | null;
+  // Outcome of content inspection; detected values are only kept server-side
+  moderation: MessageModerationSummaryDto | null;
   createdAt: Date;
+  updatedAt: Date;
+  deliveredAt: Date | null;
   receivedAt: Date | null;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  replyToId: string | null;
+  replyTo?: MessageSnippetDto | null;
+  reactions?: MessageReactionSummaryDto[];
+  attachments?: AttachmentResponseDto[];
+}
+
+export class MessageModerationSummaryDto {
+  action: 'allowed' | 'masked' | 'flagged';
+  detected: ContentDetectionType[];
+}
+
+export class MessageSearchResultDto extends MessageResponseDto {
+  // Matching fragments, HTML-escaped, with hits wrapped in <mark>
+  highlight: string;
+  rank: number;
+}
+
+export class ConversationSettingsResponseDto {
+  conversationId: string;
+  muted: boolean;
+  mutedUntil: Date | null;
+  archived: boolean;
+  pinned: boolean;
+}
+
+export class BlockedUserResponseDto {
+  userId: string;
+  blockedAt: Date;
+}
+
+export class ScheduledMessageResponseDto {
+  id: string;
+  conversationId: string;
+  fromId: string;
+  toId: string | null;
+  content: string;
+  replyToId: string | null;
+  attachmentIds: string[];
+  scheduledFor: Date;
+  status: string;
+  // Set once the message has been sent
+  messageId: string | null;
+  failureReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class MessageReportResponseDto {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  reporterId: string;
+  reason: string;
+  details: string | null;
+  status: string;
+  createdAt: Date;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+}
+
+export class MessageReportWithContextDto extends MessageReportResponseDto {
+  message: MessageResponseDto | null;
+  // Messages just before and after the reported one, oldest first
+  context: {
+    before: MessageResponseDto[];
+    after: MessageResponseDto[];
+  };
+}
+
+export class PresenceResponseDto {
+  userId: string;
+  online: boolean;
+  lastSeenAt: Date | null;
+}
+
+export class AttachmentResponseDto {
+  id: string;
+  conversationId: string;
+  messageId: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  thumbnailUrl: string | null;
+  createdAt: Date;
+}
+
+export class MessageSnippetDto {
+  id: string;
+  fromId: string;
+  content: string;
+  createdAt: Date;
+  deleted: boolean;
+}
+
+export class MessageReactionSummaryDto {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export class MessageReactionEventDto {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string | null;
+  action: 'added' | 'removed';
+  reactions: MessageReactionSummaryDto[];
+}
+
+export class MessageDeletedEventDto {
+  messageId: string;
+  conversationId: string;
+  scope: 'me' | 'everyone';
+  message?: MessageResponseDto;
+}
+
+export class MessageEditResponseDto {
+  id: string;
+  messageId: string;
+  previousContent: string;
+  editedAt: Date;
 }
@@ -0,0 +1,23 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDateString,
+} from 'class-validator';
+
+export class UpdateMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+}
+
+export class UpdateScheduledMessageDto {
+  // May be empty when the message carries attachments
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  @IsOptional()
+  @IsDateString()
+  scheduledFor?: string;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+@Entity('Attachment')
+export class Attachment {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ name: 'conversationId', type: 'uuid' })
+  conversationId: string;
+
+  // Null until the attachment is sent with a message
+  @Column({ name: 'messageId', type: 'uuid', nullable: true })
+  messageId: string | null;
+
+  @Column({ name: 'uploaderId', type: 'varchar' })
+  uploaderId: string;
+
+  @Column({ type: 'varchar' })
+  fileName: string;
+
+  @Column({ type: 'varchar' })
+  mimeType: string;
+
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ type: 'varchar' })
+  storageKey: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  thumbnailKey: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
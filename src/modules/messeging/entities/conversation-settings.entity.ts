@@ -0,0 +1,24 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// One row per participant who changed a conversation's settings; absent rows mean defaults
+@Entity('ConversationSettings')
+export class ConversationSettings {
+  @PrimaryColumn({ name: 'conversationId', type: 'uuid' })
+  conversationId: string;
+
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  // Notifications are suppressed until this time
+  @Column({ type: 'timestamp', nullable: true })
+  mutedUntil: Date | null;
+
+  @Column({ type: 'boolean', default: false })
+  archived: boolean;
+
+  @Column({ type: 'boolean', default: false })
+  pinned: boolean;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryColumn, Column, OneToMany } from 'typeorm';
+import { Entity, PrimaryColumn, Column, OneToMany, Index } from 'typeorm';
 
 @Entity('Conversation')
 export class Conversation {
@@ -11,9 +11,18 @@ export class Conversation {
   @Column({ type: 'varchar', nullable: true })
   title: string | null;
 
+  // Participant who created the conversation and may remove others; null for conversations created before owners
+  @Column({ type: 'varchar', nullable: true })
+  ownerId: string | null;
+
   @Column({ type: 'uuid', nullable: true })
   serviceId: string | null;
 
+  // Time of the latest message, used to order the inbox; null until the first message
+  @Index()
+  @Column({ type: 'timestamp', nullable: true })
+  lastMessageAt: Date | null;
+
   // Relations (using string-based relation to avoid circular imports)
   @OneToMany('Message', 'conversation')
   messages: any[];
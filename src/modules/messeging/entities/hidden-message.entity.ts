@@ -0,0 +1,19 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+
+// "Delete for me": hides a message from a single participant's view
+@Entity('HiddenMessage')
+export class HiddenMessage {
+  @PrimaryColumn('uuid', { name: 'messageId' })
+  messageId: string;
+
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'timestamp' })
+  hiddenAt: Date;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
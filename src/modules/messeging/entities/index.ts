@@ -1,2 +1,15 @@
 export { Message } from './message.entity';
 export { Conversation } from './conversation.entity';
+export { MessageReceipt } from './message-receipt.entity';
+export { MessageEdit } from './message-edit.entity';
+export { HiddenMessage } from './hidden-message.entity';
+export { MessageReaction } from './message-reaction.entity';
+export { Attachment } from './attachment.entity';
+export { UserPresence } from './user-presence.entity';
+export { UserConnection } from './user-connection.entity';
+export { ConversationSettings } from './conversation-settings.entity';
+export { UserBlock } from './user-block.entity';
+export { MessageReport } from './message-report.entity';
+export { ScheduledMessage } from './scheduled-message.entity';
+export { SocketIoAttachment } from './socket-io-attachment.entity';
+export { SendRateLimitBucket } from './send-rate-limit-bucket.entity';
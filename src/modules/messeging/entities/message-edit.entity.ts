@@ -0,0 +1,22 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+
+// Previous versions of an edited message, newest edit last
+@Entity('MessageEdit')
+export class MessageEdit {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ name: 'messageId', type: 'uuid' })
+  messageId: string;
+
+  @Column({ type: 'text' })
+  previousContent: string;
+
+  @Column({ type: 'timestamp' })
+  editedAt: Date;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
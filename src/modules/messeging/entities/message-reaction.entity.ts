@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+
+// One reaction per user per message; reacting again replaces the emoji
+@Entity('MessageReaction')
+export class MessageReaction {
+  @PrimaryColumn('uuid', { name: 'messageId' })
+  messageId: string;
+
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  emoji: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
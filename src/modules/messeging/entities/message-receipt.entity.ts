@@ -0,0 +1,22 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+
+// Per-participant delivery and read state for messages addressed to a whole (group) conversation
+@Entity('MessageReceipt')
+export class MessageReceipt {
+  @PrimaryColumn('uuid', { name: 'messageId' })
+  messageId: string;
+
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
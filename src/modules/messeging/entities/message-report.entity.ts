@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+export type MessageReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'inappropriate'
+  | 'scam'
+  | 'other'
+  | 'off_platform';
+
+// Reports raised by content inspection rather than a participant
+export const SYSTEM_REPORTER_ID = 'system';
+
+export type MessageReportStatus = 'open' | 'resolved' | 'dismissed';
+
+@Entity('MessageReport')
+@Index(['status', 'createdAt'])
+// A participant reports a given message at most once
+@Index(['messageId', 'reporterId'], { unique: true })
+export class MessageReport {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ name: 'messageId', type: 'uuid' })
+  messageId: string;
+
+  @Column({ name: 'conversationId', type: 'uuid' })
+  conversationId: string;
+
+  @Column({ name: 'reporterId', type: 'varchar' })
+  reporterId: string;
+
+  @Column({ type: 'varchar' })
+  reason: MessageReportReason;
+
+  @Column({ type: 'text', nullable: true })
+  details: string | null;
+
+  @Column({ type: 'varchar', default: 'open' })
+  status: MessageReportStatus;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Staff member who resolved or dismissed the report
+  @Column({ type: 'varchar', nullable: true })
+  resolvedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  // Relations (using string-based relation to avoid circular imports)
+  @ManyToOne('Message', { createForeignKeyConstraints: false })
+  @JoinColumn({ name: 'messageId' })
+  message: any;
+}
@@ -1,6 +1,37 @@
-import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+export type ContentDetectionType = 'phone' | 'email' | 'url' | 'payment';
+export type ContentPolicyAction = 'allow' | 'mask' | 'flag' | 'block';
+
+export interface MessageModeration {
+  // Strongest action applied to the message; blocked content is never stored
+  action: 'allowed' | 'masked' | 'flagged';
+  detections: {
+    type: ContentDetectionType;
+    action: ContentPolicyAction;
+    value: string;
+  }[];
+  inspectedAt: string;
+}
 
 @Entity('Message')
+// Keyset indexes for cursor pagination and incremental sync
+@Index(['conversationId', 'createdAt', 'id'])
+@Index(['conversationId', 'updatedAt', 'id'])
+// Retried sends carry the same client id, so a sender can never store it twice
+@Index(['fromId', 'clientMessageId'], { unique: true })
+// Full-text search expression index, managed outside TypeORM:
+// CREATE INDEX "IDX_Message_content_search" ON "Message" USING GIN (to_tsvector('english', "content"))
+@Index('IDX_Message_content_search', { synchronize: false })
 export class Message {
   @PrimaryColumn('uuid')
   id: string;
@@ -12,18 +43,47 @@ export class Message {
   @Column({ name: 'fromId', type: 'varchar' })
   fromId: string;
 
-  @Column({ name: 'toId', type: 'varchar' })
-  toId: string;
+  // Null when the message is addressed to every participant of a group conversation
+  @Column({ name: 'toId', type: 'varchar', nullable: true })
+  toId: string | null;
 
   @Column({ name: 'conversationId' })
   conversationId: string;
 
+  // Id generated by the sending client to make retries idempotent
+  @Column({ name: 'clientMessageId', type: 'varchar', nullable: true })
+  clientMessageId: string | null;
+
+  // Message being quoted, always from the same conversation
+  @Column({ name: 'replyToId', type: 'uuid', nullable: true })
+  replyToId: string | null;
+
+  // What content inspection found when the message was sent or last edited
+  @Column({ type: 'jsonb', nullable: true })
+  moderation: MessageModeration | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
+  // Bumped on every change (edit, read, unsend) so clients can sync with `since`
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Set when the message first reaches one of the recipient's devices
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  // Set when the recipient reads the message
   @Column({ type: 'timestamp', nullable: true })
   receivedAt: Date | null;
 
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  // Set when the sender unsends the message; the row stays as a tombstone
+  @Column({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
   // Relations (using string-based relation to avoid circular imports)
   @ManyToOne('Conversation', 'messages', { createForeignKeyConstraints: false })
   @JoinColumn({ name: 'conversationId' })
@@ -0,0 +1,88 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export interface MessageRecipient {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+export type ScheduledMessageStatus =
+  | 'pending'
+  | 'sending'
+  | 'sent'
+  | 'cancelled'
+  | 'failed';
+
+// A message written now and sent later through the regular send path
+@Entity('ScheduledMessage')
+@Index(['fromId', 'status', 'scheduledFor'])
+export class ScheduledMessage {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ name: 'fromId', type: 'varchar' })
+  fromId: string;
+
+  @Column({ name: 'toId', type: 'varchar', nullable: true })
+  toId: string | null;
+
+  @Column({ name: 'conversationId', type: 'uuid' })
+  conversationId: string;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({ name: 'replyToId', type: 'uuid', nullable: true })
+  replyToId: string | null;
+
+  // Uploaded attachments stay unlinked until the message is sent
+  @Column({ type: 'uuid', array: true, default: [] })
+  attachmentIds: string[];
+
+  @Column({ name: 'clientMessageId', type: 'varchar', nullable: true })
+  clientMessageId: string | null;
+
+  // Kept so the unread-email check can run when the message is released
+  @Column({ type: 'varchar', nullable: true })
+  senderName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  senderEmail: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  recipientName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  recipientEmail: string | null;
+
+  // Per-participant email data for group messages
+  @Column({ type: 'jsonb', nullable: true })
+  recipients: MessageRecipient[] | null;
+
+  @Column({ type: 'timestamp' })
+  scheduledFor: Date;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: ScheduledMessageStatus;
+
+  // Message created on release
+  @Column({ name: 'messageId', type: 'uuid', nullable: true })
+  messageId: string | null;
+
+  // Why the release was refused, e.g. the sender left the conversation
+  @Column({ type: 'text', nullable: true })
+  failureReason: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,17 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+// Send allowance shared by every instance; rows locked while a send takes a token
+@Entity('SendRateLimitBucket')
+export class SendRateLimitBucket {
+  // `sender:<userId>` or `conversation:<conversationId>:<userId>`
+  @PrimaryColumn({ type: 'varchar' })
+  key: string;
+
+  @Column({ type: 'double precision' })
+  tokens: number;
+
+  // Idle rows have refilled completely and are swept
+  @Index()
+  @Column({ type: 'timestamptz' })
+  updatedAt: Date;
+}
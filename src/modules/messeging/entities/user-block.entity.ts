@@ -0,0 +1,15 @@
+import { Entity, PrimaryColumn, CreateDateColumn, Index } from 'typeorm';
+
+// Blocking is one-sided to manage but stops messages in both directions
+@Entity('UserBlock')
+@Index(['blockedId'])
+export class UserBlock {
+  @PrimaryColumn({ name: 'blockerId', type: 'varchar' })
+  blockerId: string;
+
+  @PrimaryColumn({ name: 'blockedId', type: 'varchar' })
+  blockedId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,15 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+// A joined socket of a user on any instance; rows its instance stopped refreshing are stale
+@Entity('UserConnection')
+export class UserConnection {
+  @PrimaryColumn({ type: 'varchar' })
+  socketId: string;
+
+  @Index()
+  @Column({ type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'timestamp' })
+  lastActiveAt: Date;
+}
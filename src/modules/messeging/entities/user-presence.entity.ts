@@ -0,0 +1,11 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+// Survives restarts so clients can show "last seen" for offline users
+@Entity('UserPresence')
+export class UserPresence {
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'timestamp' })
+  lastSeenAt: Date;
+}
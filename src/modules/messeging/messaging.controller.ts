@@ -8,24 +8,65 @@ import {
   Param, 
   Query, 
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
   HttpCode,
-  HttpStatus
+  HttpStatus,
+  ForbiddenException,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
 import { MessagingService } from './services/messaging.service';
+import { MAX_ATTACHMENT_UPLOAD_BYTES } from './services/attachment.service';
+import { MessageRateLimitException } from './services/send-rate-limit.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles, SUPPORT_ROLES } from '../auth/decorators/roles.decorator';
+import type { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
 import {
   CreateConversationDto,
+  AddParticipantsDto,
   CreateMessageDto,
+  UpdateMessageDto,
+  ReactToMessageDto,
+  UploadAttachmentDto,
+  AttachmentResponseDto,
+  PresenceResponseDto,
   GetConversationsDto,
   GetMessagesDto,
+  DeleteMessageQueryDto,
+  ExportConversationQueryDto,
+  BlockUserDto,
+  ReportMessageDto,
+  GetReportsDto,
+  UpdateReportDto,
+  BlockedUserResponseDto,
+  MessageReportResponseDto,
+  PaginatedReportsDto,
   MarkMessageReadDto,
   ConversationResponseDto,
   MessageResponseDto,
+  MessageEditResponseDto,
+  MessageReactionEventDto,
   PaginatedConversationsDto,
   PaginatedMessagesDto,
-  ConversationWithLastMessageDto
+  CursorPaginatedMessagesDto,
+  SearchMessagesDto,
+  PaginatedSearchResultsDto,
+  ConversationWithLastMessageDto,
+  ConversationSettingsResponseDto,
+  UpdateConversationSettingsDto,
+  GetScheduledMessagesDto,
+  UpdateScheduledMessageDto,
+  ScheduledMessageResponseDto,
 } from './dto';
 
 @Controller('messaging')
+@UseGuards(JwtAuthGuard)
 export class MessagingController {
   constructor(private readonly messagingService: MessagingService) {}
 
@@ -34,19 +75,24 @@ export class MessagingController {
    */
   @Post('conversations')
   async createConversation(
-    @Body() createConversationDto: CreateConversationDto
+    @Body() createConversationDto: CreateConversationDto,
+    @CurrentUser('userId') userId: string,
   ): Promise<ConversationResponseDto> {
-    return await this.messagingService.createConversation(createConversationDto);
+    return await this.messagingService.createConversation(
+      createConversationDto,
+      userId,
+    );
   }
 
   /**
-   * Get conversations for a user
+   * Get conversations for the current user
    */
   @Get('conversations')
   async getConversations(
-    @Query() query: GetConversationsDto
+    @Query() query: GetConversationsDto,
+    @CurrentUser('userId') userId: string,
   ): Promise<PaginatedConversationsDto> {
-    return await this.messagingService.getConversations(query);
+    return await this.messagingService.getConversations({ ...query, userId });
   }
 
   /**
@@ -54,14 +100,17 @@ export class MessagingController {
    */
   @Get('conversations/enhanced')
   async getConversationsWithLastMessage(
-    @Query('userId') userId: string,
+    @CurrentUser('userId') userId: string,
     @Query('page') page?: number,
-    @Query('limit') limit?: number
+    @Query('limit') limit?: number,
+    @Query('archived') archived?: string,
   ): Promise<ConversationWithLastMessageDto[]> {
+    // Archived conversations are hidden unless explicitly requested
     return await this.messagingService.getConversationsWithLastMessage(
       userId, 
       page || 1, 
-      limit || 10
+      limit || 10,
+      archived === 'true',
     );
   }
 
@@ -70,9 +119,10 @@ export class MessagingController {
    */
   @Get('conversations/:id')
   async getConversationById(
-    @Param('id') id: string
+    @Param('id') id: string,
+    @CurrentUser('userId') userId: string,
   ): Promise<ConversationResponseDto> {
-    return await this.messagingService.findConversationById(id);
+    return await this.messagingService.findConversationById(id, userId);
   }
 
   /**
@@ -81,9 +131,14 @@ export class MessagingController {
   @Get('conversations/between/:participantOne/:participantTwo')
   async findConversationByParticipants(
     @Param('participantOne') participantOne: string,
-    @Param('participantTwo') participantTwo: string
+    @Param('participantTwo') participantTwo: string,
+    @CurrentUser('userId') userId: string,
   ): Promise<ConversationResponseDto | null> {
-    return await this.messagingService.findConversationByParticipants(participantOne, participantTwo);
+    return await this.messagingService.findConversationByParticipants(
+      participantOne,
+      participantTwo,
+      userId,
+    );
   }
 
   /**
@@ -93,7 +148,7 @@ export class MessagingController {
   @HttpCode(HttpStatus.NO_CONTENT)
   async deleteConversation(
     @Param('id') conversationId: string,
-    @Query('userId') userId: string
+    @CurrentUser('userId') userId: string,
   ): Promise<void> {
     await this.messagingService.deleteConversation(conversationId, userId);
   }
@@ -105,19 +160,169 @@ export class MessagingController {
   @HttpCode(HttpStatus.NO_CONTENT)
   async markConversationAsRead(
     @Param('id') conversationId: string,
-    @Query('userId') userId: string
+    @CurrentUser('userId') userId: string,
   ): Promise<void> {
     await this.messagingService.markConversationAsRead(conversationId, userId);
   }
 
   /**
-   * Send a new message
+   * Download the full transcript of a conversation as JSON, CSV or plain text
+   */
+  @Get('conversations/:id/export')
+  async exportConversation(
+    @Param('id') conversationId: string,
+    @Query() query: ExportConversationQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    const { stream, mimeType, fileName } =
+      await this.messagingService.exportConversation(
+        conversationId,
+        user,
+        query.format ?? 'json',
+      );
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  /**
+   * Get the caller's settings for a conversation
+   */
+  @Get('conversations/:id/settings')
+  async getConversationSettings(
+    @Param('id') conversationId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ConversationSettingsResponseDto> {
+    return await this.messagingService.getConversationSettings(
+      conversationId,
+      userId,
+    );
+  }
+
+  /**
+   * Mute, archive or pin a conversation for the caller
+   */
+  @Patch('conversations/:id/settings')
+  async updateConversationSettings(
+    @Param('id') conversationId: string,
+    @Body() updateDto: UpdateConversationSettingsDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ConversationSettingsResponseDto> {
+    return await this.messagingService.updateConversationSettings(
+      conversationId,
+      userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * Add participants to a conversation
+   */
+  @Post('conversations/:id/participants')
+  async addParticipants(
+    @Param('id') conversationId: string,
+    @Body() addParticipantsDto: AddParticipantsDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ConversationResponseDto> {
+    return await this.messagingService.addParticipants(
+      conversationId,
+      addParticipantsDto,
+      userId,
+    );
+  }
+
+  /**
+   * Leave a conversation, or remove another participant as its owner
+   */
+  @Delete('conversations/:id/participants/:participantId')
+  async removeParticipant(
+    @Param('id') conversationId: string,
+    @Param('participantId') participantId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ConversationResponseDto> {
+    return await this.messagingService.removeParticipant(
+      conversationId,
+      participantId,
+      userId,
+    );
+  }
+
+  /**
+   * Send a new message, or schedule it when scheduledFor is set
    */
   @Post('messages')
   async sendMessage(
-    @Body() createMessageDto: CreateMessageDto
-  ): Promise<MessageResponseDto> {
-    return await this.messagingService.sendMessage(createMessageDto);
+    @Body() createMessageDto: CreateMessageDto,
+    @CurrentUser('userId') userId: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<MessageResponseDto | ScheduledMessageResponseDto> {
+    // The sender is always the authenticated user
+    if (createMessageDto.fromId && createMessageDto.fromId !== userId) {
+      throw new ForbiddenException(
+        'fromId does not match the authenticated user',
+      );
+    }
+
+    try {
+      if (createMessageDto.scheduledFor) {
+        return await this.messagingService.scheduleMessage({
+          ...createMessageDto,
+          fromId: userId,
+        });
+      }
+      return await this.messagingService.sendMessage({
+        ...createMessageDto,
+        fromId: userId,
+      });
+    } catch (error) {
+      if (error instanceof MessageRateLimitException) {
+        res.setHeader('Retry-After', String(error.retryAfter));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the caller's scheduled messages, soonest first
+   */
+  @Get('scheduled-messages')
+  async getScheduledMessages(
+    @Query() query: GetScheduledMessagesDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ScheduledMessageResponseDto[]> {
+    return await this.messagingService.getScheduledMessages(userId, query);
+  }
+
+  /**
+   * Edit the content or send time of a scheduled message
+   */
+  @Patch('scheduled-messages/:id')
+  async updateScheduledMessage(
+    @Param('id') scheduledMessageId: string,
+    @Body() updateDto: UpdateScheduledMessageDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<ScheduledMessageResponseDto> {
+    return await this.messagingService.updateScheduledMessage(
+      scheduledMessageId,
+      userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * Cancel a scheduled message
+   */
+  @Delete('scheduled-messages/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancelScheduledMessage(
+    @Param('id') scheduledMessageId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<void> {
+    await this.messagingService.cancelScheduledMessage(
+      scheduledMessageId,
+      userId,
+    );
   }
 
   /**
@@ -125,9 +330,21 @@ export class MessagingController {
    */
   @Get('messages')
   async getMessages(
-    @Query() query: GetMessagesDto
-  ): Promise<PaginatedMessagesDto> {
-    return await this.messagingService.getMessages(query);
+    @Query() query: GetMessagesDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<PaginatedMessagesDto | CursorPaginatedMessagesDto> {
+    return await this.messagingService.getMessages(query, userId);
+  }
+
+  /**
+   * Full-text search across the caller's conversations
+   */
+  @Get('search')
+  async searchMessages(
+    @Query() query: SearchMessagesDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<PaginatedSearchResultsDto> {
+    return await this.messagingService.searchMessages(query, userId);
   }
 
   /**
@@ -137,12 +354,14 @@ export class MessagingController {
   async getMessagesBetweenUsers(
     @Param('userOne') userOne: string,
     @Param('userTwo') userTwo: string,
+    @CurrentUser('userId') userId: string,
     @Query('page') page?: number,
     @Query('limit') limit?: number
   ): Promise<PaginatedMessagesDto> {
     return await this.messagingService.getMessagesBetweenUsers(
       userOne, 
       userTwo, 
+      userId,
       page || 1, 
       limit || 50
     );
@@ -153,9 +372,64 @@ export class MessagingController {
    */
   @Get('messages/:id')
   async getMessageById(
-    @Param('id') messageId: string
+    @Param('id') messageId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageResponseDto> {
+    return await this.messagingService.getMessageById(messageId, userId);
+  }
+
+  /**
+   * Edit a message (sender only, within the edit window)
+   */
+  @Patch('messages/:id')
+  async editMessage(
+    @Param('id') messageId: string,
+    @Body() updateMessageDto: UpdateMessageDto,
+    @CurrentUser('userId') userId: string,
   ): Promise<MessageResponseDto> {
-    return await this.messagingService.getMessageById(messageId);
+    return await this.messagingService.editMessage(
+      messageId,
+      userId,
+      updateMessageDto.content,
+    );
+  }
+
+  /**
+   * Get the previous versions of an edited message
+   */
+  @Get('messages/:id/history')
+  async getMessageEditHistory(
+    @Param('id') messageId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageEditResponseDto[]> {
+    return await this.messagingService.getMessageEditHistory(messageId, userId);
+  }
+
+  /**
+   * React to a message (replaces the caller's previous reaction)
+   */
+  @Post('messages/:id/reactions')
+  async reactToMessage(
+    @Param('id') messageId: string,
+    @Body() reactToMessageDto: ReactToMessageDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageReactionEventDto> {
+    return await this.messagingService.reactToMessage(
+      messageId,
+      userId,
+      reactToMessageDto.emoji,
+    );
+  }
+
+  /**
+   * Remove the caller's reaction from a message
+   */
+  @Delete('messages/:id/reactions')
+  async removeReaction(
+    @Param('id') messageId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageReactionEventDto> {
+    return await this.messagingService.removeReaction(messageId, userId);
   }
 
   /**
@@ -164,21 +438,170 @@ export class MessagingController {
   @Patch('messages/:id/mark-read')
   async markMessageAsRead(
     @Param('id') messageId: string,
-    @Query('userId') userId: string
+    @CurrentUser('userId') userId: string,
   ): Promise<MessageResponseDto> {
     return await this.messagingService.markMessageAsRead(messageId, userId);
   }
 
   /**
-   * Delete a specific message
+   * Delete a specific message, for the caller only (`scope=me`) or for everyone (`scope=everyone`, sender only)
    */
   @Delete('messages/:id')
   @HttpCode(HttpStatus.NO_CONTENT)
   async deleteMessage(
     @Param('id') messageId: string,
-    @Query('userId') userId: string
+    @Query() query: DeleteMessageQueryDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<void> {
+    await this.messagingService.deleteMessage(messageId, userId, query.scope);
+  }
+
+  /**
+   * Report a message of a conversation the caller takes part in
+   */
+  @Post('messages/:id/report')
+  async reportMessage(
+    @Param('id') messageId: string,
+    @Body() reportDto: ReportMessageDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageReportResponseDto> {
+    return await this.messagingService.reportMessage(
+      messageId,
+      userId,
+      reportDto,
+    );
+  }
+
+  /**
+   * List message reports with the surrounding conversation (support staff only)
+   */
+  @Get('admin/reports')
+  @UseGuards(RolesGuard)
+  @Roles(...SUPPORT_ROLES)
+  async getReports(
+    @Query() query: GetReportsDto,
+  ): Promise<PaginatedReportsDto> {
+    return await this.messagingService.getReports(query);
+  }
+
+  /**
+   * Resolve or dismiss a message report (support staff only)
+   */
+  @Patch('admin/reports/:id')
+  @UseGuards(RolesGuard)
+  @Roles(...SUPPORT_ROLES)
+  async updateReport(
+    @Param('id') reportId: string,
+    @Body() updateDto: UpdateReportDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<MessageReportResponseDto> {
+    return await this.messagingService.updateReport(
+      reportId,
+      userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * Block a user so neither of you can message the other
+   */
+  @Post('blocks')
+  async blockUser(
+    @Body() blockDto: BlockUserDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<BlockedUserResponseDto> {
+    return await this.messagingService.blockUser(userId, blockDto.userId);
+  }
+
+  /**
+   * Get the users the caller has blocked
+   */
+  @Get('blocks')
+  async getBlockedUsers(
+    @CurrentUser('userId') userId: string,
+  ): Promise<BlockedUserResponseDto[]> {
+    return await this.messagingService.getBlockedUsers(userId);
+  }
+
+  /**
+   * Unblock a user
+   */
+  @Delete('blocks/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unblockUser(
+    @Param('userId') blockedId: string,
+    @CurrentUser('userId') userId: string,
   ): Promise<void> {
-    await this.messagingService.deleteMessage(messageId, userId);
+    await this.messagingService.unblockUser(userId, blockedId);
+  }
+
+  /**
+   * Upload an attachment (multipart field `file`) to send with a later message
+   */
+  @Post('attachments')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: memoryStorage(),
+      limits: { fileSize: MAX_ATTACHMENT_UPLOAD_BYTES, files: 1 },
+    }),
+  )
+  async uploadAttachment(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() uploadAttachmentDto: UploadAttachmentDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<AttachmentResponseDto> {
+    return await this.messagingService.uploadAttachment(
+      file,
+      uploadAttachmentDto.conversationId,
+      userId,
+    );
+  }
+
+  /**
+   * Download an attachment
+   */
+  @Get('attachments/:id')
+  async getAttachment(
+    @Param('id') attachmentId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<StreamableFile> {
+    const { stream, mimeType, fileName } =
+      await this.messagingService.getAttachmentFile(
+        attachmentId,
+        userId,
+        'original',
+      );
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `inline; filename="${encodeURIComponent(fileName)}"`,
+    });
+  }
+
+  /**
+   * Download the thumbnail of an image attachment
+   */
+  @Get('attachments/:id/thumbnail')
+  async getAttachmentThumbnail(
+    @Param('id') attachmentId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<StreamableFile> {
+    const { stream, mimeType } = await this.messagingService.getAttachmentFile(
+      attachmentId,
+      userId,
+      'thumbnail',
+    );
+    return new StreamableFile(stream, { type: mimeType });
+  }
+
+  /**
+   * Get whether a contact is online and when they were last seen
+   */
+  @Get('users/:userId/presence')
+  async getPresence(
+    @Param('userId') userId: string,
+    @CurrentUser('userId') currentUserId: string,
+  ): Promise<PresenceResponseDto> {
+    return await this.messagingService.getPresence(userId, currentUserId);
   }
 
   /**
@@ -186,8 +609,13 @@ export class MessagingController {
    */
   @Get('users/:userId/unread-count')
   async getUnreadMessageCount(
-    @Param('userId') userId: string
+    @Param('userId') userId: string,
+    @CurrentUser('userId') currentUserId: string,
   ): Promise<{ count: number }> {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('You can only read your own unread count');
+    }
+
     const count = await this.messagingService.getUnreadMessageCount(userId);
     return { count };
   }
@@ -6,11 +6,49 @@ import {
   MessageBody,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
+  WsException,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { Namespace, Socket, DefaultEventsMap } from 'socket.io';
+import { ClusterAdapter } from 'socket.io-adapter';
 import { Logger, Inject, forwardRef } from '@nestjs/common';
 import { MessagingService } from './services/messaging.service';
-import { CreateMessageDto } from './dto';
+import { CONNECTION_REFRESH_INTERVAL_MS } from './services/presence.service';
+import {
+  MessageRateLimitException,
+  RATE_LIMITED_ERROR_CODE,
+} from './services/send-rate-limit.service';
+import {
+  CreateMessageDto,
+  ConversationResponseDto,
+  MessageResponseDto,
+} from './dto';
+import { AuthService } from '../auth/auth.service';
+
+// Identity attached to every socket during the handshake
+interface MessagingSocketData {
+  userId: string;
+  roles: string[];
+  // Set once the socket has joined its user room through user:join
+  joined?: boolean;
+}
+
+// The gateway is namespaced, so Nest hands it the namespace rather than the root server
+type MessagingServer = Namespace<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  MessagingSocketData
+>;
+type MessagingSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  MessagingSocketData
+>;
+
+// Sent between instances so each one auto-reads a new message for its own viewing sockets
+const AUTO_READ_EVENT = 'message:auto-read-check';
 
 @WebSocketGateway({
   cors: {
@@ -19,111 +57,329 @@ import { CreateMessageDto } from './dto';
   },
   namespace: '/messaging',
 })
-export class MessagingGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class MessagingGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
-  server: Server;
+  server: MessagingServer;
 
   private readonly logger = new Logger(MessagingGateway.name);
-  private connectedUsers = new Map<string, string>(); // userId -> socketId
-  private activeConversations = new Map<string, string>(); // userId -> conversationId (currently viewing)
+  private activeConversations = new Map<string, string>(); // socketId -> conversationId (currently viewing), local sockets only
+  private typingTimers = new Map<string, NodeJS.Timeout>(); // `${conversationId}:${userId}` -> expiry timer
+  private readonly typingTimeoutMs = 5000; // Clients that stop sending typing:start are considered done
+  private readonly catchUpBatchSize = 100; // Undelivered messages pushed per round on user:join
 
   constructor(
     @Inject(forwardRef(() => MessagingService))
-    private readonly messagingService: MessagingService
+    private readonly messagingService: MessagingService,
+    private readonly authService: AuthService,
   ) {}
 
+  // Verify the access token during the handshake so every socket carries a trusted identity
+  afterInit(server: MessagingServer) {
+    server.use((client, next) => {
+      const token = this.extractHandshakeToken(client);
+
+      this.authService
+        .verifyToken(token)
+        .then((user) => {
+          client.data.userId = user.userId;
+          client.data.roles = user.roles;
+          next();
+        })
+        .catch((error: Error) => {
+          this.logger.warn(`Rejected socket ${client.id}: ${error.message}`);
+          next(new Error('Unauthorized'));
+        });
+    });
+
+    server.on(AUTO_READ_EVENT, (message: MessageResponseDto) => {
+      this.autoReadForLocalViewers(message).catch((error: Error) => {
+        this.logger.error(`Error auto-reading message: ${error.message}`);
+      });
+    });
+
+    // Sockets this instance stops refreshing (e.g. after a crash) stop counting as online
+    setInterval(() => {
+      const socketIds = [...server.sockets.values()]
+        .filter((socket) => socket.data.joined)
+        .map((socket) => socket.id);
+      this.messagingService
+        .refreshConnections(socketIds)
+        .catch((error: Error) => {
+          this.logger.error(`Error refreshing connections: ${error.message}`);
+        });
+    }, CONNECTION_REFRESH_INTERVAL_MS).unref();
+  }
+
   // Handle client connection
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+  handleConnection(client: MessagingSocket) {
+    this.logger.log(
+      `Client connected: ${client.id} (user ${client.data.userId})`,
+    );
   }
 
   // Handle client disconnection
-  handleDisconnect(client: Socket) {
+  async handleDisconnect(client: MessagingSocket) {
     this.logger.log(`Client disconnected: ${client.id}`);
-    
-    // Remove user from connected users map and active conversations
-    for (const [userId, socketId] of this.connectedUsers.entries()) {
-      if (socketId === client.id) {
-        this.connectedUsers.delete(userId);
-        this.activeConversations.delete(userId); // Clean up active conversation tracking
-        this.logger.log(`User ${userId} disconnected`);
-        
-        // Broadcast to all connected clients that a user went offline
-        this.server.emit('user:offline', { userId, status: 'offline' });
-        break;
+
+    // Clean up active conversation tracking for this socket only
+    this.activeConversations.delete(client.id);
+
+    const userId: string | undefined = client.data.userId;
+    if (!userId || !client.data.joined) {
+      return;
+    }
+
+    try {
+      // The user stays online while any other device or tab is still connected, on any instance
+      const lastSeenAt = await this.messagingService.recordDisconnect(
+        userId,
+        client.id,
+      );
+      if (!lastSeenAt) {
+        this.logger.log(
+          `User ${userId} closed socket ${client.id}, others still connected`,
+        );
+        return;
       }
+
+      this.stopAllTyping(userId);
+      this.logger.log(`User ${userId} disconnected`);
+
+      // Only people who share a conversation with the user learn they went offline
+      await this.emitToContacts(userId, 'user:offline', {
+        userId,
+        status: 'offline',
+        lastSeenAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error recording last seen for ${userId}: ${(error as Error).message}`,
+      );
     }
   }
 
-  // User joins with their userId
+  // User joins with the identity from their access token
   @SubscribeMessage('user:join')
-  handleUserJoin(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string }
+  async handleUserJoin(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data?: { userId?: string },
   ) {
-    const { userId } = data;
-    this.connectedUsers.set(userId, client.id);
-    this.logger.log(`User ${userId} joined with socket ${client.id}`);
-    
-    // Broadcast to all connected clients that a user came online
-    this.server.emit('user:online', { userId, status: 'online' });
+    let userId: string;
+    try {
+      userId = this.assertIdentity(client, data?.userId);
+    } catch (error) {
+      client.emit('user:joined', {
+        success: false,
+        error: (error as Error).message,
+      });
+      return { success: false, error: (error as Error).message };
+    }
+
+    // Every socket of the user joins their personal room so all devices receive events
+    await client.join(this.userRoom(userId));
+    client.data.joined = true;
+
+    try {
+      // Tracked in Postgres, so two devices joining at once on different instances agree on who came first
+      const cameOnline = await this.messagingService.recordConnect(
+        userId,
+        client.id,
+      );
+      this.logger.log(
+        `User ${userId} joined with socket ${client.id}${cameOnline ? '' : ' (already online)'}`,
+      );
+
+      // Only people who share a conversation with the user learn they came online
+      if (cameOnline) {
+        await this.emitToContacts(userId, 'user:online', {
+          userId,
+          status: 'online',
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error broadcasting presence for ${userId}: ${(error as Error).message}`,
+      );
+    }
+
+    try {
+      await this.deliverPendingMessages(userId);
+    } catch (error) {
+      this.logger.error(
+        `Error delivering pending messages to ${userId}: ${(error as Error).message}`,
+      );
+    }
     
     client.emit('user:joined', { success: true, userId });
   }
 
+  // User started typing in a conversation
+  @SubscribeMessage('typing:start')
+  async handleTypingStart(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { conversationId: string; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+      const participantIds = await this.getOtherParticipantIds(
+        data.conversationId,
+        userId,
+      );
+      const key = `${data.conversationId}:${userId}`;
+
+      const wasTyping = this.typingTimers.has(key);
+      clearTimeout(this.typingTimers.get(key));
+
+      // Expire server-side so a crashed or backgrounded client never leaves "typing..." stuck
+      this.typingTimers.set(
+        key,
+        setTimeout(() => {
+          this.typingTimers.delete(key);
+          this.emitToUsers(participantIds, 'typing:stop', {
+            conversationId: data.conversationId,
+            userId,
+          });
+        }, this.typingTimeoutMs),
+      );
+
+      if (!wasTyping) {
+        this.emitToUsers(participantIds, 'typing:start', {
+          conversationId: data.conversationId,
+          userId,
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // User stopped typing in a conversation
+  @SubscribeMessage('typing:stop')
+  async handleTypingStop(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { conversationId: string; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+      await this.stopTyping(data.conversationId, userId);
+
+      return { success: true };
+    } catch (error) {
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   // User enters a conversation (starts viewing it)
   @SubscribeMessage('conversation:enter')
-  handleConversationEnter(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string; conversationId: string }
+  async handleConversationEnter(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { userId?: string; conversationId: string },
   ) {
-    const { userId, conversationId } = data;
-    this.activeConversations.set(userId, conversationId);
-    this.logger.log(`User ${userId} entered conversation ${conversationId}`);
-    
+    const { conversationId } = data;
+    let userId: string;
+    try {
+      userId = this.assertIdentity(client, data.userId);
+      // Only participants may subscribe to the conversation room and its events
+      await this.messagingService.assertParticipant(conversationId, userId);
+    } catch (error) {
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+
+    // Viewing state is per socket, so another tab can be looking at a different conversation
+    const previousConversationId = this.activeConversations.get(client.id);
+    if (previousConversationId) {
+      await client.leave(this.conversationRoom(previousConversationId));
+    }
+
+    this.activeConversations.set(client.id, conversationId);
+    await client.join(this.conversationRoom(conversationId));
+    this.logger.log(
+      `User ${userId} entered conversation ${conversationId} on socket ${client.id}`,
+    );
+
     client.emit('conversation:entered', { success: true, conversationId });
   }
 
   // User leaves a conversation (stops viewing it)
   @SubscribeMessage('conversation:leave')
-  handleConversationLeave(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string }
+  async handleConversationLeave(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data?: { userId?: string },
   ) {
-    const { userId } = data;
-    const conversationId = this.activeConversations.get(userId);
-    this.activeConversations.delete(userId);
-    this.logger.log(`User ${userId} left conversation ${conversationId}`);
-    
+    let userId: string;
+    try {
+      userId = this.assertIdentity(client, data?.userId);
+    } catch (error) {
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+
+    const conversationId = this.activeConversations.get(client.id);
+    this.activeConversations.delete(client.id);
+    if (conversationId) {
+      await client.leave(this.conversationRoom(conversationId));
+    }
+    this.logger.log(
+      `User ${userId} left conversation ${conversationId} on socket ${client.id}`,
+    );
+
     client.emit('conversation:left', { success: true });
   }
 
   // Send message via WebSocket
   @SubscribeMessage('message:send')
   async handleSendMessage(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: CreateMessageDto | any // Accept both new format with user data and legacy format
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: CreateMessageDto, // User data for email notifications is optional, as in the legacy format
   ) {
     try {
       // Create a proper CreateMessageDto with all required fields
       const createMessageDto: CreateMessageDto = {
         content: data.content,
-        fromId: data.fromId,
+        fromId: this.assertIdentity(client, data.fromId),
         toId: data.toId,
         conversationId: data.conversationId,
+        replyToId: data.replyToId,
+        clientMessageId: data.clientMessageId,
+        attachmentIds: data.attachmentIds,
+        scheduledFor: data.scheduledFor,
         // Include user data if provided (for email notifications)
         senderName: data.senderName,
         senderEmail: data.senderEmail,
         recipientName: data.recipientName,
         recipientEmail: data.recipientEmail,
+        recipients: data.recipients,
       };
 
-      this.logger.log(`Received message from ${createMessageDto.fromId} to ${createMessageDto.toId}`);
+      // Scheduled messages are only stored for now; they are fanned out when released
+      if (createMessageDto.scheduledFor) {
+        const scheduledMessage =
+          await this.messagingService.scheduleMessage(createMessageDto);
+        this.emitToUser(
+          createMessageDto.fromId,
+          'message:scheduled',
+          scheduledMessage,
+        );
+        return { success: true, scheduledMessage };
+      }
+
+      this.logger.log(
+        `Received message from ${createMessageDto.fromId} to ${createMessageDto.toId ?? `conversation ${createMessageDto.conversationId}`}`,
+      );
       console.log('--- [WS] message:send called ---');
       console.log('Payload:', createMessageDto);
-      console.log('Connected users:', Array.from(this.connectedUsers.entries()));
-      console.log('Active conversations:', Array.from(this.activeConversations.entries()));
-      
+      console.log(
+        'Active conversations:',
+        Array.from(this.activeConversations.entries()),
+      );
+
       // Check if user data is provided for email notifications
       if (createMessageDto.senderEmail && createMessageDto.recipientEmail) {
         console.log('📧 User data provided with WebSocket message - email notifications enabled');
@@ -136,99 +392,185 @@ export class MessagingGateway implements OnGatewayConnection, OnGatewayDisconnec
       const savedMessage = await this.messagingService.sendMessage(createMessageDto);
       console.log('Message saved to DB:', savedMessage);
       
-      // Emit to sender (confirmation)
+      // Emit to sender (confirmation), including their other devices and tabs
       client.emit('message:sent', savedMessage);
-      
-      // Emit to recipient if they're online
-      const recipientSocketId = this.connectedUsers.get(createMessageDto.toId);
-      if (recipientSocketId) {
-        console.log(`Recipient ${createMessageDto.toId} is online, socket: ${recipientSocketId}`);
-        this.server.to(recipientSocketId).emit('message:received', savedMessage);
-        this.logger.log(`Message delivered to recipient ${createMessageDto.toId}`);
-        
-        // Auto-mark as read if recipient is actively viewing this conversation
-        const recipientActiveConversation = this.activeConversations.get(createMessageDto.toId);
-        console.log('Recipient active conversation:', recipientActiveConversation);
-        if (recipientActiveConversation === savedMessage.conversationId) {
-          try {
-            console.log('Recipient is actively viewing this conversation, auto-marking as read...');
-            await this.messagingService.markMessageAsRead(savedMessage.id, createMessageDto.toId);
-            this.logger.log(`Auto-marked message ${savedMessage.id} as read for actively viewing user ${createMessageDto.toId}`);
-            
-            // Emit read receipt to sender
-            client.emit('message:read-receipt', {
-              messageId: savedMessage.id,
-              readBy: createMessageDto.toId,
-              readAt: new Date().toISOString()
-            });
-            
-            // Also emit to recipient that message was auto-marked as read
-            this.server.to(recipientSocketId).emit('message:auto-read', {
-              messageId: savedMessage.id,
-              conversationId: savedMessage.conversationId
-            });
-            console.log('Auto-read events emitted');
-          } catch (error) {
-            this.logger.error(`Error auto-marking message as read: ${error.message}`);
-            console.error('Error auto-marking as read:', error);
-          }
-        } else {
-          console.log('Recipient is NOT actively viewing this conversation, not auto-marking as read.');
-        }
-      } else {
-        this.logger.log(`Recipient ${createMessageDto.toId} is offline`);
-        console.log(`Recipient ${createMessageDto.toId} is offline`);
-      }
+      client
+        .to(this.userRoom(createMessageDto.fromId))
+        .emit('message:sent', savedMessage);
+
+      // Sending a message ends the sender's typing indicator
+      await this.stopTyping(
+        savedMessage.conversationId,
+        createMessageDto.fromId,
+      );
+
+      // A retried send (same clientMessageId) re-emits the stored message so a fan-out cut short the first time still completes
+      await this.deliverToRecipients(savedMessage);
       
       return { success: true, message: savedMessage };
     } catch (error) {
-      this.logger.error(`Error sending message: ${error.message}`);
+      this.logger.error(`Error sending message: ${(error as Error).message}`);
       console.error('Error in handleSendMessage:', error);
-      client.emit('message:error', { error: error.message });
-      return { success: false, error: error.message };
+
+      // Rate limited clients get a code and delay they can back off on
+      if (error instanceof MessageRateLimitException) {
+        const rateLimitError = {
+          error: (error as Error).message,
+          code: RATE_LIMITED_ERROR_CODE,
+          retryAfter: error.retryAfter,
+        };
+        client.emit('message:error', rateLimitError);
+        return { success: false, ...rateLimitError };
+      }
+
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
     }
   }
 
   // Mark message as read via WebSocket
   @SubscribeMessage('message:mark-read')
   async handleMarkMessageRead(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { messageId: string; userId: string }
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { messageId: string; userId?: string },
   ) {
     try {
-      const { messageId, userId } = data;
+      const { messageId } = data;
+      const userId = this.assertIdentity(client, data.userId);
       
       // Mark message as read using existing service
       const updatedMessage = await this.messagingService.markMessageAsRead(messageId, userId);
       
       // Emit read receipt to sender if they're online
-      const senderSocketId = this.connectedUsers.get(updatedMessage.fromId);
-      if (senderSocketId) {
-        this.server.to(senderSocketId).emit('message:read-receipt', {
-          messageId,
-          readBy: userId,
-          readAt: updatedMessage.receivedAt
-        });
-      }
-      
-      client.emit('message:marked-read', { messageId, success: true });
-      
+      this.emitToUser(updatedMessage.fromId, 'message:read-receipt', {
+        messageId,
+        readBy: userId,
+        readAt: updatedMessage.receivedAt,
+      });
+
+      // Confirm on every socket of the reader so other devices clear their unread state too
+      this.emitToUser(userId, 'message:marked-read', {
+        messageId,
+        success: true,
+      });
+
       return { success: true };
     } catch (error) {
-      this.logger.error(`Error marking message as read: ${error.message}`);
-      client.emit('message:error', { error: error.message });
-      return { success: false, error: error.message };
+      this.logger.error(
+        `Error marking message as read: ${(error as Error).message}`,
+      );
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Edit a message via WebSocket
+  @SubscribeMessage('message:edit')
+  async handleEditMessage(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody()
+    data: { messageId: string; content: string; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+
+      // Other participants are notified by the service
+      const updatedMessage = await this.messagingService.editMessage(
+        data.messageId,
+        userId,
+        data.content,
+      );
+
+      client.emit('message:edited', updatedMessage);
+
+      return { success: true, message: updatedMessage };
+    } catch (error) {
+      this.logger.error(`Error editing message: ${(error as Error).message}`);
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Delete a message via WebSocket (for the user only or for everyone)
+  @SubscribeMessage('message:delete')
+  async handleDeleteMessage(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody()
+    data: { messageId: string; scope?: 'me' | 'everyone'; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+
+      // `message:deleted` is emitted to the affected clients by the service
+      await this.messagingService.deleteMessage(
+        data.messageId,
+        userId,
+        data.scope ?? 'everyone',
+      );
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Error deleting message: ${(error as Error).message}`);
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Add or replace a reaction via WebSocket
+  @SubscribeMessage('reaction:add')
+  async handleAddReaction(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { messageId: string; emoji: string; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+
+      // `message:reaction` is broadcast to the participants by the service
+      const event = await this.messagingService.reactToMessage(
+        data.messageId,
+        userId,
+        data.emoji,
+      );
+
+      return { success: true, reaction: event };
+    } catch (error) {
+      this.logger.error(`Error adding reaction: ${(error as Error).message}`);
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Remove a reaction via WebSocket
+  @SubscribeMessage('reaction:remove')
+  async handleRemoveReaction(
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { messageId: string; userId?: string },
+  ) {
+    try {
+      const userId = this.assertIdentity(client, data.userId);
+
+      const event = await this.messagingService.removeReaction(
+        data.messageId,
+        userId,
+      );
+
+      return { success: true, reaction: event };
+    } catch (error) {
+      this.logger.error(`Error removing reaction: ${(error as Error).message}`);
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
     }
   }
 
   // Mark conversation as read via WebSocket
   @SubscribeMessage('conversation:mark-read')
   async handleMarkConversationRead(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string }
+    @ConnectedSocket() client: MessagingSocket,
+    @MessageBody() data: { conversationId: string; userId?: string },
   ) {
     try {
-      const { conversationId, userId } = data;
+      const { conversationId } = data;
+      const userId = this.assertIdentity(client, data.userId);
       
       // Mark conversation as read using existing service
       await this.messagingService.markConversationAsRead(conversationId, userId);
@@ -244,35 +586,279 @@ export class MessagingGateway implements OnGatewayConnection, OnGatewayDisconnec
       
       return { success: true };
     } catch (error) {
-      this.logger.error(`Error marking conversation as read: ${error.message}`);
-      client.emit('message:error', { error: error.message });
-      return { success: false, error: error.message };
+      this.logger.error(
+        `Error marking conversation as read: ${(error as Error).message}`,
+      );
+      client.emit('message:error', { error: (error as Error).message });
+      return { success: false, error: (error as Error).message };
     }
   }
 
-  // Get connected users (for debugging)
+  // Get the user's contacts that are currently online
   @SubscribeMessage('users:online')
-  handleGetOnlineUsers(@ConnectedSocket() client: Socket) {
-    const onlineUserIds = Array.from(this.connectedUsers.keys());
-    client.emit('users:online-list', onlineUserIds);
+  async handleGetOnlineUsers(@ConnectedSocket() client: MessagingSocket) {
+    try {
+      const userId = this.assertIdentity(client);
+      const contactIds = await this.messagingService.getContactIds(userId);
+      client.emit(
+        'users:online-list',
+        await this.messagingService.getOnlineUserIds(contactIds),
+      );
+    } catch (error) {
+      client.emit('message:error', { error: (error as Error).message });
+    }
   }
 
-  // Check if a specific user is online
-  isUserOnline(userId: string): boolean {
-    return this.connectedUsers.has(userId);
+  // Token can be sent via socket.io `auth`, an Authorization header or a `token` query param
+  private extractHandshakeToken(client: MessagingSocket): string | null {
+    const { auth, headers, query } = client.handshake;
+
+    if (typeof auth?.token === 'string' && auth.token) {
+      return auth.token.replace(/^Bearer\s+/i, '');
+    }
+
+    const headerToken = this.authService.extractBearerToken(
+      headers.authorization,
+    );
+    if (headerToken) {
+      return headerToken;
+    }
+
+    return typeof query?.token === 'string' ? query.token : null;
   }
 
-  // Broadcast confirmation update to both participants in a conversation
-  broadcastConfirmationUpdate(conversationId: string, confirmation: any) {
-    // Find all users in this conversation
-    for (const [userId, activeConvId] of this.activeConversations.entries()) {
-      if (activeConvId === conversationId) {
-        const socketId = this.connectedUsers.get(userId);
-        if (socketId) {
-          this.server.to(socketId).emit('confirmation_updated', { conversationId, confirmation });
-        }
+  // Resolve the authenticated user of a socket, rejecting payloads that claim to be someone else
+  private assertIdentity(
+    client: MessagingSocket,
+    claimedUserId?: string,
+  ): string {
+    const userId: string | undefined = client.data.userId;
+
+    if (!userId) {
+      throw new WsException('Socket is not authenticated');
+    }
+
+    if (claimedUserId && claimedUserId !== userId) {
+      throw new WsException('User id does not match the authenticated user');
+    }
+
+    return userId;
+  }
+
+  private async getOtherParticipantIds(
+    conversationId: string,
+    userId: string,
+  ): Promise<string[]> {
+    const conversation = await this.messagingService.assertParticipant(
+      conversationId,
+      userId,
+    );
+    return conversation.userIds.filter(
+      (participantId) => participantId !== userId,
+    );
+  }
+
+  private async stopTyping(conversationId: string, userId: string) {
+    const key = `${conversationId}:${userId}`;
+    const timer = this.typingTimers.get(key);
+    if (!timer) {
+      return;
+    }
+
+    clearTimeout(timer);
+    this.typingTimers.delete(key);
+
+    const participantIds = await this.getOtherParticipantIds(
+      conversationId,
+      userId,
+    );
+    this.emitToUsers(participantIds, 'typing:stop', { conversationId, userId });
+  }
+
+  // Flush every typing indicator of a user that went away
+  private stopAllTyping(userId: string) {
+    for (const key of Array.from(this.typingTimers.keys())) {
+      const [conversationId, typingUserId] = key.split(':');
+      if (typingUserId === userId) {
+        this.stopTyping(conversationId, userId).catch((error: Error) => {
+          this.logger.error(
+            `Error clearing typing indicator: ${error.message}`,
+          );
+        });
       }
     }
-    this.logger.log(`Broadcasted confirmation update for conversation ${conversationId}`);
+  }
+
+  // Push messages that arrived while the user had no connected device
+  private async deliverPendingMessages(userId: string) {
+    for (;;) {
+      const pendingMessages =
+        await this.messagingService.getUndeliveredMessages(
+          userId,
+          this.catchUpBatchSize,
+        );
+      for (const message of pendingMessages) {
+        this.emitToUser(userId, 'message:received', message);
+      }
+
+      const deliveredCount = await this.markDelivered(
+        pendingMessages.map((message) => message.id),
+        userId,
+      );
+      if (
+        pendingMessages.length < this.catchUpBatchSize ||
+        deliveredCount === 0
+      ) {
+        break;
+      }
+    }
+  }
+
+  // Record delivery and send `message:delivered` receipts to the senders
+  private async markDelivered(
+    messageIds: string[],
+    userId: string,
+  ): Promise<number> {
+    const statuses = await this.messagingService.markMessagesDelivered(
+      messageIds,
+      userId,
+    );
+    for (const status of statuses) {
+      this.emitToUser(status.fromId, 'message:delivered', status);
+    }
+    return statuses.length;
+  }
+
+  private async emitToContacts(
+    userId: string,
+    event: string,
+    payload: unknown,
+  ) {
+    const contactIds = await this.messagingService.getContactIds(userId);
+    this.emitToUsers(contactIds, event, payload);
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private conversationRoom(conversationId: string): string {
+    return `conversation:${conversationId}`;
+  }
+
+  // Fan out a stored message to every other participant that is online, marking it delivered
+  // and, for recipients viewing the conversation, read
+  async deliverToRecipients(savedMessage: MessageResponseDto) {
+    const participantIds = await this.messagingService.getParticipantIds(
+      savedMessage.conversationId,
+    );
+    const recipientIds = participantIds.filter(
+      (userId) => userId !== savedMessage.fromId,
+    );
+    const onlineRecipientIds =
+      await this.messagingService.getOnlineUserIds(recipientIds);
+
+    for (const recipientId of recipientIds) {
+      if (!onlineRecipientIds.includes(recipientId)) {
+        this.logger.log(`Recipient ${recipientId} is offline`);
+        continue;
+      }
+
+      this.emitToUser(recipientId, 'message:received', savedMessage);
+      this.logger.log(`Message delivered to recipient ${recipientId}`);
+
+      try {
+        await this.markDelivered([savedMessage.id], recipientId);
+      } catch (error) {
+        this.logger.error(
+          `Error recording delivery: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    // Only the instance holding a socket knows what it is viewing, so each one checks its own
+    await this.autoReadForLocalViewers(savedMessage);
+    if (this.server.adapter instanceof ClusterAdapter) {
+      this.server.serverSideEmit(AUTO_READ_EVENT, savedMessage);
+    }
+  }
+
+  // Mark a new message read for recipients with a socket on this instance viewing its conversation
+  private async autoReadForLocalViewers(savedMessage: MessageResponseDto) {
+    const viewerIds = new Set<string>();
+    for (const [socketId, conversationId] of this.activeConversations) {
+      const userId = this.server.sockets.get(socketId)?.data.userId;
+      if (
+        conversationId === savedMessage.conversationId &&
+        userId &&
+        userId !== savedMessage.fromId
+      ) {
+        viewerIds.add(userId);
+      }
+    }
+
+    for (const recipientId of viewerIds) {
+      try {
+        await this.messagingService.markMessageAsRead(
+          savedMessage.id,
+          recipientId,
+        );
+        this.logger.log(
+          `Auto-marked message ${savedMessage.id} as read for actively viewing user ${recipientId}`,
+        );
+
+        // Emit read receipt to sender
+        this.emitToUser(savedMessage.fromId, 'message:read-receipt', {
+          messageId: savedMessage.id,
+          readBy: recipientId,
+          readAt: new Date().toISOString(),
+        });
+
+        // Also emit to recipient that message was auto-marked as read
+        this.emitToUser(recipientId, 'message:auto-read', {
+          messageId: savedMessage.id,
+          conversationId: savedMessage.conversationId,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Error auto-marking message as read: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  // Emit an event to every connected socket of a user
+  emitToUser(userId: string, event: string, payload: unknown) {
+    this.server.to(this.userRoom(userId)).emit(event, payload);
+  }
+
+  // Emit an event to every connected user in the list
+  emitToUsers(userIds: string[], event: string, payload: unknown) {
+    for (const userId of new Set(userIds)) {
+      this.emitToUser(userId, event, payload);
+    }
+  }
+
+  // Let current (and removed) participants know the member list changed
+  notifyParticipantsUpdated(
+    conversation: ConversationResponseDto,
+    userIds: string[],
+  ) {
+    this.emitToUsers(
+      userIds,
+      'conversation:participants-updated',
+      conversation,
+    );
+  }
+
+  // Broadcast confirmation update to both participants in a conversation
+  broadcastConfirmationUpdate(conversationId: string, confirmation: unknown) {
+    // Every socket currently viewing this conversation is in its room
+    this.server
+      .to(this.conversationRoom(conversationId))
+      .emit('confirmation_updated', { conversationId, confirmation });
+    this.logger.log(
+      `Broadcasted confirmation update for conversation ${conversationId}`,
+    );
   }
 }
@@ -1,22 +1,101 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Conversation } from './entities/conversation.entity';
 import { Message } from './entities/message.entity';
-import { ConversationService, MessageService, MessagingService } from './services';
+import { MessageReceipt } from './entities/message-receipt.entity';
+import { MessageEdit } from './entities/message-edit.entity';
+import { HiddenMessage } from './entities/hidden-message.entity';
+import { MessageReaction } from './entities/message-reaction.entity';
+import { Attachment } from './entities/attachment.entity';
+import { UserPresence } from './entities/user-presence.entity';
+import { UserConnection } from './entities/user-connection.entity';
+import { SendRateLimitBucket } from './entities/send-rate-limit-bucket.entity';
+import { ConversationSettings } from './entities/conversation-settings.entity';
+import { UserBlock } from './entities/user-block.entity';
+import { MessageReport } from './entities/message-report.entity';
+import { ScheduledMessage } from './entities/scheduled-message.entity';
+import { SocketIoAttachment } from './entities/socket-io-attachment.entity';
+import {
+  ConversationService,
+  MessageService,
+  MessagingService,
+  ReactionService,
+  AttachmentService,
+  PresenceService,
+  ConversationSettingsService,
+  MessageDigestService,
+  TranscriptService,
+  BlockService,
+  ReportService,
+  ContentInspectionService,
+  SendRateLimitService,
+  ScheduledMessageService,
+} from './services';
+import { STORAGE_DRIVER, LocalStorageDriver } from './storage';
 import { MessagingController } from './messaging.controller';
 import { MessagingGateway } from './messaging.gateway';
 import { QueueModule } from '../queue/queue.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { NotificationPreferencesModule } from '../notification-preferences/notification-preferences.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Conversation, Message]),
-    QueueModule
+    TypeOrmModule.forFeature([
+      Conversation,
+      Message,
+      MessageReceipt,
+      MessageEdit,
+      HiddenMessage,
+      MessageReaction,
+      Attachment,
+      UserPresence,
+      UserConnection,
+      ConversationSettings,
+      UserBlock,
+      MessageReport,
+      ScheduledMessage,
+      SocketIoAttachment,
+      SendRateLimitBucket,
+    ]),
+    QueueModule,
+    SchedulerModule,
+    NotificationPreferencesModule,
+    AuthModule,
   ],
   controllers: [MessagingController],
   providers: [
     ConversationService,
     MessageService,
     MessagingService,
+    ReactionService,
+    AttachmentService,
+    PresenceService,
+    ConversationSettingsService,
+    MessageDigestService,
+    TranscriptService,
+    BlockService,
+    ReportService,
+    ContentInspectionService,
+    SendRateLimitService,
+    ScheduledMessageService,
+    {
+      // Swap in another StorageDriver (e.g. S3) here based on ATTACHMENTS_STORAGE_DRIVER
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const driver =
+          configService.get<string>('ATTACHMENTS_STORAGE_DRIVER') ?? 'local';
+        if (driver !== 'local') {
+          throw new Error(`Unsupported attachments storage driver: ${driver}`);
+        }
+        return new LocalStorageDriver(
+          configService.get<string>('ATTACHMENTS_STORAGE_PATH') ??
+            'uploads/attachments',
+        );
+      },
+    },
     MessagingGateway
   ],
   exports: [
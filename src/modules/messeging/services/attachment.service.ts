@@ -0,0 +1,438 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  PayloadTooLargeException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { Attachment } from '../entities/attachment.entity';
+import { STORAGE_DRIVER } from '../storage/storage-driver.interface';
+import type { StorageDriver } from '../storage/storage-driver.interface';
+import { AttachmentResponseDto } from '../dto';
+import { SchedulerService } from '../../scheduler/scheduler.service';
+
+// Hard cap applied by the upload interceptor before the configurable limit is checked
+export const MAX_ATTACHMENT_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+const THUMBNAIL_SIZE = 320;
+const DEFAULT_UNLINKED_MAX_AGE_HOURS = 24;
+const UNLINKED_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+export const UNLINKED_ATTACHMENT_SWEEP_JOB = 'attachment.unlinked-sweep';
+
+// Leading bytes of the formats we accept, so a renamed executable can't pass as an image
+const FILE_SIGNATURES: {
+  mimeType: string;
+  matches: (data: Buffer) => boolean;
+}[] = [
+  {
+    mimeType: 'image/jpeg',
+    matches: (data) =>
+      data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  {
+    mimeType: 'image/png',
+    matches: (data) =>
+      data
+        .subarray(0, 8)
+        .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/gif',
+    matches: (data) => data.subarray(0, 4).toString('ascii') === 'GIF8',
+  },
+  {
+    mimeType: 'image/webp',
+    matches: (data) =>
+      data.subarray(0, 4).toString('ascii') === 'RIFF' &&
+      data.subarray(8, 12).toString('ascii') === 'WEBP',
+  },
+  {
+    mimeType: 'application/pdf',
+    matches: (data) => data.subarray(0, 5).toString('ascii') === '%PDF-',
+  },
+];
+
+@Injectable()
+export class AttachmentService implements OnModuleInit {
+  private readonly logger = new Logger(AttachmentService.name);
+
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentRepository: Repository<Attachment>,
+    @Inject(STORAGE_DRIVER)
+    private storageDriver: StorageDriver,
+    private configService: ConfigService,
+    private schedulerService: SchedulerService,
+  ) {}
+
+  async onModuleInit() {
+    this.schedulerService.registerHandler(UNLINKED_ATTACHMENT_SWEEP_JOB, () =>
+      this.sweepUnlinked(),
+    );
+    await this.scheduleSweep();
+  }
+
+  /**
+   * Validate and store an uploaded file (plus a thumbnail for images)
+   */
+  async upload(
+    file: Express.Multer.File,
+    conversationId: string,
+    uploaderId: string,
+  ): Promise<AttachmentResponseDto> {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const maxSizeBytes =
+      Number(
+        this.configService.get('ATTACHMENTS_MAX_SIZE_MB') ??
+          DEFAULT_MAX_SIZE_MB,
+      ) *
+      1024 *
+      1024;
+    if (file.size > maxSizeBytes) {
+      throw new PayloadTooLargeException(
+        `Attachments cannot be larger than ${maxSizeBytes / 1024 / 1024} MB`,
+      );
+    }
+
+    const mimeType = this.detectMimeType(file.buffer);
+    if (!mimeType || !this.getAllowedMimeTypes().includes(mimeType)) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} is not allowed`,
+      );
+    }
+
+    const attachment = new Attachment();
+    attachment.id = randomUUID();
+    attachment.conversationId = conversationId;
+    attachment.messageId = null;
+    attachment.uploaderId = uploaderId;
+    attachment.fileName = file.originalname;
+    attachment.mimeType = mimeType;
+    attachment.size = file.size;
+    attachment.storageKey = `${conversationId}/${attachment.id}${extname(file.originalname).toLowerCase()}`;
+    attachment.thumbnailKey = null;
+
+    await this.storageDriver.save(attachment.storageKey, file.buffer, mimeType);
+
+    if (mimeType.startsWith('image/')) {
+      try {
+        const thumbnail = await sharp(file.buffer)
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .webp()
+          .toBuffer();
+
+        attachment.thumbnailKey = `${conversationId}/${attachment.id}.thumb.webp`;
+        await this.storageDriver.save(
+          attachment.thumbnailKey,
+          thumbnail,
+          'image/webp',
+        );
+      } catch (error) {
+        // The original is still usable without a preview
+        this.logger.warn(
+          `Could not generate thumbnail for attachment ${attachment.id}: ${(error as Error).message}`,
+        );
+        attachment.thumbnailKey = null;
+      }
+    }
+
+    const savedAttachment = await this.attachmentRepository.save(attachment);
+    return this.mapAttachmentToDto(savedAttachment);
+  }
+
+  /**
+   * Ensure attachments can be sent with a new message: uploaded by the sender to this conversation and not yet sent
+   */
+  async assertAttachable(
+    attachmentIds: string[],
+    conversationId: string,
+    uploaderId: string,
+  ): Promise<void> {
+    if (attachmentIds.length === 0) {
+      return;
+    }
+
+    const attachments = await this.attachmentRepository.find({
+      where: {
+        id: In(attachmentIds),
+        conversationId,
+        uploaderId,
+        messageId: IsNull(),
+      },
+    });
+
+    if (attachments.length !== new Set(attachmentIds).size) {
+      throw new BadRequestException(
+        'One or more attachments are invalid or already sent',
+      );
+    }
+  }
+
+  /**
+   * Link uploaded attachments to the message they were sent with; fails when any of them was
+   * sent with another message or swept since it was checked
+   */
+  async linkToMessage(
+    attachmentIds: string[],
+    messageId: string,
+    manager: EntityManager = this.attachmentRepository.manager,
+  ): Promise<AttachmentResponseDto[]> {
+    if (attachmentIds.length === 0) {
+      return [];
+    }
+
+    const uniqueIds = [...new Set(attachmentIds)];
+    const result = await manager.update(
+      Attachment,
+      { id: In(uniqueIds), messageId: IsNull() },
+      { messageId },
+    );
+    if ((result.affected ?? 0) < uniqueIds.length) {
+      throw new BadRequestException(
+        'One or more attachments are invalid or already sent',
+      );
+    }
+
+    const attachments = await manager.find(Attachment, {
+      where: { messageId },
+      order: { createdAt: 'ASC' },
+    });
+    return attachments.map((attachment) => this.mapAttachmentToDto(attachment));
+  }
+
+  /**
+   * Get attachments for a set of messages, keyed by message id
+   */
+  async getAttachmentsForMessages(
+    messageIds: string[],
+  ): Promise<Map<string, AttachmentResponseDto[]>> {
+    const byMessage = new Map<string, AttachmentResponseDto[]>();
+    if (messageIds.length === 0) {
+      return byMessage;
+    }
+
+    const attachments = await this.attachmentRepository.find({
+      where: { messageId: In(messageIds) },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const attachment of attachments) {
+      const messageAttachments = byMessage.get(attachment.messageId!) ?? [];
+      messageAttachments.push(this.mapAttachmentToDto(attachment));
+      byMessage.set(attachment.messageId!, messageAttachments);
+    }
+
+    return byMessage;
+  }
+
+  /**
+   * Get attachment entity by ID
+   */
+  async getAttachmentEntity(id: string): Promise<Attachment> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Open the stored file (or its thumbnail) for streaming
+   */
+  async openFile(
+    attachment: Attachment,
+    variant: 'original' | 'thumbnail',
+  ): Promise<{ stream: Readable; mimeType: string }> {
+    if (variant === 'thumbnail') {
+      if (!attachment.thumbnailKey) {
+        throw new NotFoundException('Attachment has no thumbnail');
+      }
+      return {
+        stream: await this.storageDriver.createReadStream(
+          attachment.thumbnailKey,
+        ),
+        mimeType: 'image/webp',
+      };
+    }
+
+    return {
+      stream: await this.storageDriver.createReadStream(attachment.storageKey),
+      mimeType: attachment.mimeType,
+    };
+  }
+
+  /**
+   * Delete the attachments of a message, including stored files
+   */
+  async deleteForMessage(messageId: string): Promise<void> {
+    await this.deleteAttachments(
+      await this.attachmentRepository.find({ where: { messageId } }),
+    );
+  }
+
+  /**
+   * Delete every attachment row of a conversation, returning the stored files to remove once committed
+   */
+  async deleteForConversation(
+    conversationId: string,
+    manager: EntityManager = this.attachmentRepository.manager,
+  ): Promise<string[]> {
+    const attachments = await manager.find(Attachment, {
+      where: { conversationId },
+    });
+    if (attachments.length > 0) {
+      await manager.delete(Attachment, {
+        id: In(attachments.map((attachment) => attachment.id)),
+      });
+    }
+
+    return this.getStorageKeys(attachments);
+  }
+
+  /**
+   * Remove stored attachment files whose rows are gone
+   */
+  async deleteStoredFiles(storageKeys: string[]): Promise<void> {
+    for (const storageKey of storageKeys) {
+      await this.storageDriver.delete(storageKey);
+    }
+  }
+
+  /**
+   * Delete uploads that were never sent, keeping those held by scheduled messages
+   */
+  async sweepUnlinked(): Promise<void> {
+    const maxAgeHours = Number(
+      this.configService.get('ATTACHMENTS_UNLINKED_MAX_AGE_HOURS') ??
+        DEFAULT_UNLINKED_MAX_AGE_HOURS,
+    );
+    const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+
+    try {
+      // One statement, so a send linking one of these rows either wins or fails its own check
+      const [rows]: [Attachment[], number] =
+        await this.attachmentRepository.query(
+          `DELETE FROM "Attachment" attachment
+           WHERE attachment."messageId" IS NULL AND attachment."createdAt" < $1
+             AND NOT EXISTS (
+               SELECT 1 FROM "ScheduledMessage" scheduled
+               WHERE scheduled.status IN ('pending', 'sending') AND attachment.id = ANY(scheduled."attachmentIds")
+             )
+           RETURNING attachment."storageKey", attachment."thumbnailKey"`,
+          [cutoff],
+        );
+
+      await this.deleteStoredFiles(this.getStorageKeys(rows));
+      if (rows.length > 0) {
+        this.logger.log(`Swept ${rows.length} unsent attachment(s)`);
+      }
+    } catch (error) {
+      // The next run picks up whatever this one missed
+      this.logger.error(
+        `Error sweeping unsent attachments: ${(error as Error).message}`,
+      );
+    }
+
+    await this.scheduleSweep();
+  }
+
+  // One pending sweep is shared by every instance, and each run schedules the next
+  private async scheduleSweep(): Promise<void> {
+    if (
+      await this.schedulerService.findPending(
+        UNLINKED_ATTACHMENT_SWEEP_JOB,
+        UNLINKED_ATTACHMENT_SWEEP_JOB,
+      )
+    ) {
+      return;
+    }
+
+    await this.schedulerService.schedule(
+      UNLINKED_ATTACHMENT_SWEEP_JOB,
+      {},
+      new Date(Date.now() + UNLINKED_SWEEP_INTERVAL_MS),
+      UNLINKED_ATTACHMENT_SWEEP_JOB,
+    );
+  }
+
+  private async deleteAttachments(attachments: Attachment[]): Promise<void> {
+    await this.deleteStoredFiles(this.getStorageKeys(attachments));
+
+    if (attachments.length > 0) {
+      await this.attachmentRepository.delete({
+        id: In(attachments.map((attachment) => attachment.id)),
+      });
+    }
+  }
+
+  private getStorageKeys(attachments: Attachment[]): string[] {
+    return attachments.flatMap((attachment) =>
+      attachment.thumbnailKey
+        ? [attachment.storageKey, attachment.thumbnailKey]
+        : [attachment.storageKey],
+    );
+  }
+
+  private detectMimeType(data: Buffer): string | null {
+    return (
+      FILE_SIGNATURES.find((signature) => signature.matches(data))?.mimeType ??
+      null
+    );
+  }
+
+  private getAllowedMimeTypes(): string[] {
+    const configured = this.configService.get<string>(
+      'ATTACHMENTS_ALLOWED_MIME_TYPES',
+    );
+    return configured
+      ? configured.split(',').map((mimeType) => mimeType.trim())
+      : DEFAULT_ALLOWED_MIME_TYPES;
+  }
+
+  /**
+   * Map attachment entity to DTO
+   */
+  mapAttachmentToDto(attachment: Attachment): AttachmentResponseDto {
+    return {
+      id: attachment.id,
+      conversationId: attachment.conversationId,
+      messageId: attachment.messageId,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      url: `/messaging/attachments/${attachment.id}`,
+      thumbnailUrl: attachment.thumbnailKey
+        ? `/messaging/attachments/${attachment.id}/thumbnail`
+        : null,
+      createdAt: attachment.createdAt,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { UserBlock } from '../entities/user-block.entity';
+import { BlockedUserResponseDto } from '../dto';
+
+@Injectable()
+export class BlockService {
+  constructor(
+    @InjectRepository(UserBlock)
+    private blockRepository: Repository<UserBlock>,
+  ) {}
+
+  /**
+   * Block a user; blocking someone twice is a no-op
+   */
+  async blockUser(
+    blockerId: string,
+    blockedId: string,
+  ): Promise<BlockedUserResponseDto> {
+    if (blockerId === blockedId) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+
+    await this.blockRepository
+      .createQueryBuilder()
+      .insert()
+      .into(UserBlock)
+      .values({ blockerId, blockedId })
+      .orIgnore()
+      .execute();
+
+    const block = await this.blockRepository.findOneOrFail({
+      where: { blockerId, blockedId },
+    });
+    return this.mapBlockToDto(block);
+  }
+
+  /**
+   * Lift a block the user placed earlier
+   */
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.blockRepository.delete({ blockerId, blockedId });
+  }
+
+  /**
+   * Get the users a user has blocked, most recent first
+   */
+  async getBlockedUsers(blockerId: string): Promise<BlockedUserResponseDto[]> {
+    const blocks = await this.blockRepository.find({
+      where: { blockerId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return blocks.map((block) => this.mapBlockToDto(block));
+  }
+
+  /**
+   * Whether the user blocked, or was blocked by, any of the other users
+   */
+  async isBlockedWithAny(userId: string, otherIds: string[]): Promise<boolean> {
+    if (otherIds.length === 0) {
+      return false;
+    }
+
+    const count = await this.blockRepository
+      .createQueryBuilder('block')
+      .where(
+        new Brackets((qb) => {
+          qb.where(
+            'block.blockerId = :userId AND block.blockedId IN (:...otherIds)',
+          ).orWhere(
+            'block.blockedId = :userId AND block.blockerId IN (:...otherIds)',
+          );
+        }),
+      )
+      .setParameters({ userId, otherIds })
+      .getCount();
+
+    return count > 0;
+  }
+
+  private mapBlockToDto(block: UserBlock): BlockedUserResponseDto {
+    return {
+      userId: block.blockedId,
+      blockedAt: block.createdAt,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContentInspectionService } from './content-inspection.service';
+
+describe('ContentInspectionService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    new ContentInspectionService({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+
+  it('should leave clean content untouched', () => {
+    const result = createService().inspect(
+      'See you on 2026-10-18 at 10:30, the job takes about 3 hours',
+    );
+
+    expect(result).toEqual({
+      content: 'See you on 2026-10-18 at 10:30, the job takes about 3 hours',
+      moderation: null,
+    });
+  });
+
+  it('should mask phone numbers and email addresses by default', () => {
+    const result = createService().inspect(
+      'Call me on +94 77 123 4567 or write to jane.doe@example.com',
+    );
+
+    expect(result.content).toBe(
+      'Call me on [phone number hidden] or write to [email address hidden]',
+    );
+    expect(result.moderation).toMatchObject({
+      action: 'masked',
+      detections: [
+        { type: 'phone', action: 'mask', value: '+94 77 123 4567' },
+        { type: 'email', action: 'mask', value: 'jane.doe@example.com' },
+      ],
+    });
+  });
+
+  it('should flag links and payment keywords without changing the content', () => {
+    const content = 'Details on www.example.com, just pay by bank transfer';
+    const result = createService().inspect(content);
+
+    expect(result.content).toBe(content);
+    expect(result.moderation?.action).toBe('flagged');
+    expect(result.moderation?.detections.map((d) => d.type)).toEqual([
+      'url',
+      'payment',
+    ]);
+  });
+
+  it('should not report the domain of an email address as a link', () => {
+    const result = createService().inspect('Mail jane@example.com');
+
+    expect(result.moderation?.detections).toEqual([
+      { type: 'email', action: 'mask', value: 'jane@example.com' },
+    ]);
+  });
+
+  it('should reject content the policy blocks', () => {
+    const service = createService({ CONTENT_POLICY_URL: 'block' });
+
+    expect(() => service.inspect('Book at https://example.com/offer')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should use configured payment keywords', () => {
+    const service = createService({ CONTENT_PAYMENT_KEYWORDS: 'crypto, btc' });
+
+    expect(service.inspect('Happy to take BTC')).toMatchObject({
+      moderation: { action: 'flagged' },
+    });
+    expect(service.inspect('Pay by bank transfer').moderation).toBeNull();
+  });
+
+  it('should refuse an unknown policy action', () => {
+    expect(() => createService({ CONTENT_POLICY_PHONE: 'hide' })).toThrow(
+      'Invalid CONTENT_POLICY_PHONE',
+    );
+  });
+});
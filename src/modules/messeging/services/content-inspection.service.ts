@@ -0,0 +1,236 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type {
+  ContentDetectionType,
+  ContentPolicyAction,
+  MessageModeration,
+} from '../entities/message.entity';
+
+const POLICY_ACTIONS: ContentPolicyAction[] = [
+  'allow',
+  'mask',
+  'flag',
+  'block',
+];
+
+// Checked in this order; a later detector never claims text an earlier one matched
+const DETECTION_TYPES: ContentDetectionType[] = [
+  'email',
+  'url',
+  'phone',
+  'payment',
+];
+
+const DEFAULT_POLICY: Record<ContentDetectionType, ContentPolicyAction> = {
+  email: 'mask',
+  url: 'flag',
+  phone: 'mask',
+  payment: 'flag',
+};
+
+const DEFAULT_PAYMENT_KEYWORDS = [
+  'bank transfer',
+  'bank account',
+  'account number',
+  'iban',
+  'swift',
+  'wire transfer',
+  'paypal',
+  'venmo',
+  'cash app',
+  'western union',
+  'pay directly',
+  'pay outside',
+  'pay in cash',
+];
+
+const LABELS: Record<ContentDetectionType, string> = {
+  email: 'email address',
+  url: 'link',
+  phone: 'phone number',
+  payment: 'payment details',
+};
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)[^\s<>]+|\b[a-z0-9-]+\.(?:com|net|org|io|co|me|lk|info|biz|app)\b(?:\/[^\s<>]*)?/gi;
+// Digits with the usual separators; the digit count is checked separately
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+interface Detection {
+  type: ContentDetectionType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface ContentInspectionResult {
+  // Content to store, with masked detections replaced
+  content: string;
+  // Null when nothing was detected
+  moderation: MessageModeration | null;
+}
+
+/**
+ * Detects contact details and off-platform payment talk in message content
+ * and applies the configured policy to each kind of finding
+ */
+@Injectable()
+export class ContentInspectionService {
+  private readonly policy: Record<ContentDetectionType, ContentPolicyAction>;
+  private readonly paymentPattern: RegExp | null;
+
+  constructor(configService: ConfigService) {
+    this.policy = {
+      email: this.readPolicy(configService, 'email'),
+      url: this.readPolicy(configService, 'url'),
+      phone: this.readPolicy(configService, 'phone'),
+      payment: this.readPolicy(configService, 'payment'),
+    };
+
+    const keywords =
+      configService
+        .get<string>('CONTENT_PAYMENT_KEYWORDS')
+        ?.split(',')
+        .map((keyword) => keyword.trim().toLowerCase())
+        .filter(Boolean) ?? DEFAULT_PAYMENT_KEYWORDS;
+    this.paymentPattern = keywords.length
+      ? new RegExp(
+          `\\b(?:${keywords.map((keyword) => this.escapeRegExp(keyword)).join('|')})\\b`,
+          'gi',
+        )
+      : null;
+  }
+
+  /**
+   * Inspect message content, throwing when the policy blocks something it contains
+   */
+  inspect(content: string): ContentInspectionResult {
+    const detections = this.detect(content);
+    if (detections.length === 0) {
+      return { content, moderation: null };
+    }
+
+    const blockedTypes = this.typesWithAction(detections, 'block');
+    if (blockedTypes.length > 0) {
+      throw new BadRequestException(
+        `Messages cannot contain ${blockedTypes.map((type) => LABELS[type]).join(', ')}`,
+      );
+    }
+
+    // Replace from the end so earlier offsets stay valid
+    let inspectedContent = content;
+    for (const detection of [...detections].reverse()) {
+      if (this.policy[detection.type] === 'mask') {
+        inspectedContent =
+          inspectedContent.slice(0, detection.start) +
+          `[${LABELS[detection.type]} hidden]` +
+          inspectedContent.slice(detection.end);
+      }
+    }
+
+    const flagged = this.typesWithAction(detections, 'flag').length > 0;
+    const masked = this.typesWithAction(detections, 'mask').length > 0;
+
+    return {
+      content: inspectedContent,
+      moderation: {
+        action: flagged ? 'flagged' : masked ? 'masked' : 'allowed',
+        detections: detections.map((detection) => ({
+          type: detection.type,
+          action: this.policy[detection.type],
+          value: detection.value,
+        })),
+        inspectedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  private detect(content: string): Detection[] {
+    const detections: Detection[] = [];
+
+    for (const type of DETECTION_TYPES) {
+      for (const match of this.findMatches(type, content)) {
+        const overlaps = detections.some(
+          (detection) =>
+            match.start < detection.end && detection.start < match.end,
+        );
+        if (!overlaps) {
+          detections.push(match);
+        }
+      }
+    }
+
+    return detections.sort((a, b) => a.start - b.start);
+  }
+
+  private findMatches(
+    type: ContentDetectionType,
+    content: string,
+  ): Detection[] {
+    const pattern = {
+      email: EMAIL_PATTERN,
+      url: URL_PATTERN,
+      phone: PHONE_PATTERN,
+      payment: this.paymentPattern,
+    }[type];
+    if (!pattern) {
+      return [];
+    }
+
+    return Array.from(content.matchAll(pattern))
+      .map((match) => ({
+        type,
+        start: match.index,
+        end: match.index + match[0].length,
+        value: match[0].trim(),
+      }))
+      .filter(
+        (detection) => type !== 'phone' || this.isPhoneNumber(detection.value),
+      );
+  }
+
+  private isPhoneNumber(value: string): boolean {
+    const digits = value.replace(/\D/g, '').length;
+    return (
+      digits >= MIN_PHONE_DIGITS &&
+      digits <= MAX_PHONE_DIGITS &&
+      !ISO_DATE_PATTERN.test(value)
+    );
+  }
+
+  private typesWithAction(
+    detections: Detection[],
+    action: ContentPolicyAction,
+  ): ContentDetectionType[] {
+    return Array.from(
+      new Set(
+        detections
+          .map((detection) => detection.type)
+          .filter((type) => this.policy[type] === action),
+      ),
+    );
+  }
+
+  private readPolicy(
+    configService: ConfigService,
+    type: ContentDetectionType,
+  ): ContentPolicyAction {
+    const key = `CONTENT_POLICY_${type.toUpperCase()}`;
+    const value = configService.get<string>(key) ?? DEFAULT_POLICY[type];
+
+    if (!POLICY_ACTIONS.includes(value as ContentPolicyAction)) {
+      throw new Error(
+        `Invalid ${key}: ${value} (expected one of ${POLICY_ACTIONS.join(', ')})`,
+      );
+    }
+    return value as ContentPolicyAction;
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { ConversationSettings } from '../entities/conversation-settings.entity';
+import {
+  UpdateConversationSettingsDto,
+  ConversationSettingsResponseDto,
+} from '../dto';
+
+@Injectable()
+export class ConversationSettingsService {
+  constructor(
+    @InjectRepository(ConversationSettings)
+    private settingsRepository: Repository<ConversationSettings>,
+  ) {}
+
+  /**
+   * Get the user's settings for a conversation, falling back to defaults
+   */
+  async getSettings(
+    conversationId: string,
+    userId: string,
+  ): Promise<ConversationSettingsResponseDto> {
+    const settings = await this.settingsRepository.findOne({
+      where: { conversationId, userId },
+    });
+
+    return this.mapSettingsToDto(conversationId, settings);
+  }
+
+  /**
+   * Get the user's settings for several conversations, keyed by conversation id
+   */
+  async getSettingsForConversations(
+    conversationIds: string[],
+    userId: string,
+  ): Promise<Map<string, ConversationSettingsResponseDto>> {
+    const settingsByConversation = new Map<
+      string,
+      ConversationSettingsResponseDto
+    >();
+    if (conversationIds.length === 0) {
+      return settingsByConversation;
+    }
+
+    const rows = await this.settingsRepository.find({
+      where: { conversationId: In(conversationIds), userId },
+    });
+    const rowsByConversation = new Map(
+      rows.map((row) => [row.conversationId, row]),
+    );
+
+    for (const conversationId of conversationIds) {
+      settingsByConversation.set(
+        conversationId,
+        this.mapSettingsToDto(
+          conversationId,
+          rowsByConversation.get(conversationId) ?? null,
+        ),
+      );
+    }
+
+    return settingsByConversation;
+  }
+
+  /**
+   * Update only the settings present in the DTO
+   */
+  async updateSettings(
+    conversationId: string,
+    userId: string,
+    updateDto: UpdateConversationSettingsDto,
+  ): Promise<ConversationSettingsResponseDto> {
+    const settings =
+      (await this.settingsRepository.findOne({
+        where: { conversationId, userId },
+      })) ??
+      this.settingsRepository.create({
+        conversationId,
+        userId,
+        mutedUntil: null,
+        archived: false,
+        pinned: false,
+      });
+
+    if (updateDto.mutedUntil !== undefined) {
+      settings.mutedUntil = updateDto.mutedUntil
+        ? new Date(updateDto.mutedUntil)
+        : null;
+    }
+    if (updateDto.archived !== undefined) {
+      settings.archived = updateDto.archived;
+    }
+    if (updateDto.pinned !== undefined) {
+      settings.pinned = updateDto.pinned;
+    }
+
+    const savedSettings = await this.settingsRepository.save(settings);
+    return this.mapSettingsToDto(conversationId, savedSettings);
+  }
+
+  /**
+   * Whether the user has muted the conversation right now
+   */
+  async isMuted(conversationId: string, userId: string): Promise<boolean> {
+    const settings = await this.settingsRepository.findOne({
+      where: { conversationId, userId },
+    });
+
+    return this.isMutedAt(settings?.mutedUntil ?? null);
+  }
+
+  /**
+   * Remove every participant's settings for a conversation
+   */
+  async deleteForConversation(
+    conversationId: string,
+    manager: EntityManager = this.settingsRepository.manager,
+  ): Promise<void> {
+    await manager.delete(ConversationSettings, { conversationId });
+  }
+
+  /**
+   * Remove one participant's settings, e.g. when they leave the conversation
+   */
+  async deleteForParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.settingsRepository.delete({ conversationId, userId });
+  }
+
+  private isMutedAt(mutedUntil: Date | null, now = new Date()): boolean {
+    return !!mutedUntil && mutedUntil > now;
+  }
+
+  private mapSettingsToDto(
+    conversationId: string,
+    settings: ConversationSettings | null,
+  ): ConversationSettingsResponseDto {
+    const mutedUntil = settings?.mutedUntil ?? null;
+
+    return {
+      conversationId,
+      muted: this.isMutedAt(mutedUntil),
+      mutedUntil,
+      archived: settings?.archived ?? false,
+      pinned: settings?.pinned ?? false,
+    };
+  }
+}
@@ -1,10 +1,17 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { randomUUID } from 'crypto';
 import { Conversation } from '../entities/conversation.entity';
+import { ConversationSettings } from '../entities/conversation-settings.entity';
 import {
   CreateConversationDto,
+  MAX_CONVERSATION_PARTICIPANTS,
   GetConversationsDto,
   ConversationResponseDto,
   PaginatedConversationsDto,
@@ -19,31 +26,46 @@ export class ConversationService {
   ) {}
 
   /**
-   * Create a new conversation between two participants
+   * Create a new conversation between two or more participants
    */
-  async createConversation(createConversationDto: CreateConversationDto): Promise<ConversationResponseDto> {
+  async createConversation(
+    createConversationDto: CreateConversationDto,
+    ownerId: string,
+  ): Promise<ConversationResponseDto> {
     const { userIds, title, serviceId } = createConversationDto;
 
-    // Ensure exactly 2 participants
-    if (userIds.length !== 2) {
-      throw new BadRequestException('Conversation must have exactly 2 participants');
+    if (userIds.length < 2) {
+      throw new BadRequestException(
+        'Conversation must have at least 2 participants',
+      );
     }
 
-    // Check if conversation already exists between these participants and this service
-    let existingConversation: Conversation | null = null;
-    if (serviceId) {
-      existingConversation = await this.conversationRepository.createQueryBuilder('conversation')
-        .where('conversation.serviceId = :serviceId', { serviceId })
-        .andWhere('conversation.userIds @> :userIds1 AND conversation.userIds @> :userIds2', {
-          userIds1: [userIds[0]],
-          userIds2: [userIds[1]]
-        })
-        .getOne();
-    } else {
-      existingConversation = await this.findConversationByParticipants(userIds[0], userIds[1]);
-    }
-    if (existingConversation) {
-      return this.mapConversationToDto(existingConversation);
+    // Direct (two-party) conversations are reused; group conversations are always created fresh
+    if (userIds.length === 2) {
+      // Check if conversation already exists between these participants and this service
+      let existingConversation: Conversation | null = null;
+      if (serviceId) {
+        existingConversation = await this.conversationRepository
+          .createQueryBuilder('conversation')
+          .where('conversation.serviceId = :serviceId', { serviceId })
+          .andWhere(
+            'conversation.userIds @> :userIds1 AND conversation.userIds @> :userIds2',
+            {
+              userIds1: [userIds[0]],
+              userIds2: [userIds[1]],
+            },
+          )
+          .andWhere('array_length(conversation.userIds, 1) = 2')
+          .getOne();
+      } else {
+        existingConversation = await this.findConversationByParticipants(
+          userIds[0],
+          userIds[1],
+        );
+      }
+      if (existingConversation) {
+        return this.mapConversationToDto(existingConversation);
+      }
     }
 
     // Create new conversation
@@ -51,6 +73,7 @@ export class ConversationService {
     conversation.id = randomUUID();
     conversation.userIds = userIds;
     conversation.title = title || null;
+    conversation.ownerId = ownerId;
     conversation.serviceId = serviceId || null;
 
     const savedConversation = await this.conversationRepository.save(conversation);
@@ -74,7 +97,8 @@ export class ConversationService {
     }
 
     const [conversations, total] = await queryBuilder
-      .orderBy('conversation.id', 'DESC')
+      .orderBy('conversation.lastMessageAt', 'DESC', 'NULLS LAST')
+      .addOrderBy('conversation.id', 'DESC')
       .skip(skip)
       .take(limit)
       .getManyAndCount();
@@ -91,17 +115,31 @@ export class ConversationService {
   }
 
   /**
-   * Get conversations with last message and unread count (requires MessageService)
+   * Get a page of the user's conversations, pinned first and then most recently active
    */
-  async getConversationsForUser(userId: string, page = 1, limit = 10): Promise<Conversation[]> {
+  async getConversationsForUser(
+    userId: string,
+    page = 1,
+    limit = 10,
+    archived = false,
+  ): Promise<Conversation[]> {
     const skip = (page - 1) * limit;
 
+    // Settings are per participant; a missing row means not archived and not pinned
     return await this.conversationRepository
       .createQueryBuilder('conversation')
+      .leftJoin(
+        ConversationSettings,
+        'settings',
+        'settings.conversationId = conversation.id AND settings.userId = :userId',
+      )
       .where(':userId = ANY(conversation.userIds)', { userId })
-      .orderBy('conversation.id', 'DESC')
-      .skip(skip)
-      .take(limit)
+      .andWhere('COALESCE(settings.archived, false) = :archived', { archived })
+      .orderBy('COALESCE(settings.pinned, false)', 'DESC')
+      .addOrderBy('conversation.lastMessageAt', 'DESC', 'NULLS LAST')
+      .addOrderBy('conversation.id', 'DESC')
+      .offset(skip)
+      .limit(limit)
       .getMany();
   }
 
@@ -136,7 +174,7 @@ export class ConversationService {
   }
 
   /**
-   * Find conversation between two participants
+   * Find the direct conversation between two participants
    */
   async findConversationByParticipants(participantOne: string, participantTwo: string): Promise<Conversation | null> {
     return await this.conversationRepository
@@ -148,36 +186,193 @@ export class ConversationService {
           userIds2: [participantTwo] 
         }
       )
+      // Group conversations that happen to include both users are not a direct thread
+      .andWhere('array_length(conversation.userIds, 1) = 2')
       .getOne();
   }
 
   /**
-   * Update conversation's updatedAt timestamp
+   * Get everyone the user shares at least one conversation with
    */
-  async updateConversationTimestamp(conversationId: string): Promise<void> {
-    // Since Prisma schema doesn't have updatedAt, we'll skip this operation
-    // or implement custom timestamp tracking if needed
+  async getContactIds(userId: string): Promise<string[]> {
+    const rows: { userId: string }[] = await this.conversationRepository.query(
+      `SELECT DISTINCT unnest("userIds") AS "userId" FROM "Conversation" WHERE $1 = ANY("userIds")`,
+      [userId],
+    );
+
+    return rows
+      .map((row) => row.userId)
+      .filter((contactId) => contactId !== userId);
   }
 
   /**
-   * Delete a conversation
+   * Check whether two users share at least one conversation
    */
-  async deleteConversation(conversationId: string, userId: string): Promise<void> {
-    const conversation = await this.conversationRepository.findOne({
-      where: { id: conversationId }
+  async sharesConversation(
+    userId: string,
+    otherUserId: string,
+  ): Promise<boolean> {
+    const count = await this.conversationRepository
+      .createQueryBuilder('conversation')
+      .where('conversation.userIds @> :userIds', {
+        userIds: [userId, otherUserId],
+      })
+      .getCount();
+
+    return count > 0;
+  }
+
+  /**
+   * Add participants to a conversation
+   */
+  async addParticipants(
+    conversationId: string,
+    userIds: string[],
+    actingUserId: string,
+  ): Promise<Conversation> {
+    // Locked so concurrent adds and removals each see the other's participant list
+    return await this.conversationRepository.manager.transaction(
+      async (manager) => {
+        const conversation = await this.getConversationForUpdate(
+          conversationId,
+          manager,
+        );
+
+        // Only existing participants can invite others
+        if (!this.isParticipantInConversation(actingUserId, conversation)) {
+          throw new BadRequestException(
+            'You are not a participant in this conversation',
+          );
+        }
+
+        const newUserIds = userIds.filter(
+          (userId) => !conversation.userIds.includes(userId),
+        );
+        if (newUserIds.length === 0) {
+          return conversation;
+        }
+
+        // Two-party conversations are reused as the direct thread between those users
+        if (conversation.userIds.length === 2) {
+          throw new BadRequestException(
+            'Participants cannot be added to a direct conversation; create a group conversation instead',
+          );
+        }
+
+        if (
+          conversation.userIds.length + newUserIds.length >
+          MAX_CONVERSATION_PARTICIPANTS
+        ) {
+          throw new BadRequestException(
+            `Conversation cannot have more than ${MAX_CONVERSATION_PARTICIPANTS} participants`,
+          );
+        }
+
+        conversation.userIds = [...conversation.userIds, ...newUserIds];
+        return await manager.save(conversation);
+      },
+    );
+  }
+
+  /**
+   * Remove a participant from a conversation (or leave it when removing yourself)
+   */
+  async removeParticipant(
+    conversationId: string,
+    userId: string,
+    actingUserId: string,
+  ): Promise<Conversation> {
+    return await this.conversationRepository.manager.transaction(
+      async (manager) => {
+        const conversation = await this.getConversationForUpdate(
+          conversationId,
+          manager,
+        );
+
+        if (!this.isParticipantInConversation(actingUserId, conversation)) {
+          throw new BadRequestException(
+            'You are not a participant in this conversation',
+          );
+        }
+
+        if (!this.isParticipantInConversation(userId, conversation)) {
+          throw new NotFoundException(
+            'User is not a participant in this conversation',
+          );
+        }
+
+        // Anyone can leave; only the owner can remove someone else
+        if (userId !== actingUserId && conversation.ownerId !== actingUserId) {
+          throw new ForbiddenException(
+            'Only the conversation owner can remove other participants',
+          );
+        }
+
+        if (conversation.userIds.length <= 2) {
+          throw new BadRequestException(
+            'Conversation must keep at least 2 participants',
+          );
+        }
+
+        conversation.userIds = conversation.userIds.filter(
+          (id) => id !== userId,
+        );
+        // An owner who leaves hands the conversation to the longest-standing remaining participant
+        if (conversation.ownerId === userId) {
+          conversation.ownerId = conversation.userIds[0];
+        }
+        return await manager.save(conversation);
+      },
+    );
+  }
+
+  /**
+   * Load a conversation and lock its row until the surrounding transaction ends
+   */
+  private async getConversationForUpdate(
+    id: string,
+    manager: EntityManager,
+  ): Promise<Conversation> {
+    const conversation = await manager.findOne(Conversation, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
     });
 
     if (!conversation) {
       throw new NotFoundException('Conversation not found');
     }
 
-    // Only participants can delete the conversation
-    if (!this.isParticipantInConversation(userId, conversation)) {
-      throw new BadRequestException('You are not a participant in this conversation');
-    }
+    return conversation;
+  }
 
-    // Delete conversation (messages should be deleted by MessageService first)
-    await this.conversationRepository.delete(conversationId);
+  /**
+   * Record the time of the latest message, never moving it backwards
+   */
+  async updateConversationTimestamp(
+    conversationId: string,
+    lastMessageAt: Date = new Date(),
+  ): Promise<void> {
+    await this.conversationRepository
+      .createQueryBuilder()
+      .update(Conversation)
+      .set({
+        lastMessageAt: () =>
+          'GREATEST(COALESCE("lastMessageAt", :lastMessageAt), :lastMessageAt)',
+      })
+      .where('id = :conversationId', { conversationId })
+      .setParameter('lastMessageAt', lastMessageAt)
+      .execute();
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async deleteConversation(
+    conversationId: string,
+    manager: EntityManager = this.conversationRepository.manager,
+  ): Promise<void> {
+    // Messages should be deleted by MessageService first; participation is checked by the caller
+    await manager.delete(Conversation, conversationId);
   }
 
   /**
@@ -194,7 +389,9 @@ export class ConversationService {
     return {
       id: conversation.id,
       userIds: conversation.userIds,
-      title: conversation.title
+      title: conversation.title,
+      ownerId: conversation.ownerId,
+      lastMessageAt: conversation.lastMessageAt,
     };
   }
 }
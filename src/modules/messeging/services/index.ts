@@ -1,3 +1,14 @@
 export * from './conversation.service';
 export * from './message.service';
 export * from './messaging.service';
+export * from './reaction.service';
+export * from './attachment.service';
+export * from './presence.service';
+export * from './conversation-settings.service';
+export * from './message-digest.service';
+export * from './transcript.service';
+export * from './block.service';
+export * from './report.service';
+export * from './content-inspection.service';
+export * from './send-rate-limit.service';
+export * from './scheduled-message.service';
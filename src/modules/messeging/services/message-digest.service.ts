@@ -0,0 +1,282 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { Message } from '../entities/message.entity';
+import { MessageReceipt } from '../entities/message-receipt.entity';
+import { QueueService } from '../../queue/queue.service';
+import { SchedulerService } from '../../scheduler/scheduler.service';
+import { NotificationPreferencesService } from '../../notification-preferences/notification-preferences.service';
+import { ConversationSettingsService } from './conversation-settings.service';
+
+const DEFAULT_DIGEST_WINDOW_SECONDS = 120;
+const DEFAULT_IMMEDIATE_EMAIL_DELAY_SECONDS = 30;
+const PREVIEW_LENGTH = 100;
+export const MESSAGE_DIGEST_JOB = 'message.unread-digest';
+
+interface MessageDigestEntry {
+  messageId: string;
+  senderName: string;
+  attachmentCount: number;
+}
+
+interface MessageDigestPayload {
+  conversationId: string;
+  recipientId: string;
+  recipientEmail: string;
+  recipientName: string;
+  senderEmail: string;
+  senderName: string;
+  messages: MessageDigestEntry[];
+}
+
+export interface UnreadMessageNotification {
+  messageId: string;
+  conversationId: string;
+  recipientId: string;
+  senderEmail: string;
+  senderName: string;
+  recipientEmail: string;
+  recipientName: string;
+  attachmentCount: number;
+}
+
+@Injectable()
+export class MessageDigestService implements OnModuleInit {
+  private readonly logger = new Logger(MessageDigestService.name);
+
+  constructor(
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+    @InjectRepository(MessageReceipt)
+    private receiptRepository: Repository<MessageReceipt>,
+    private configService: ConfigService,
+    private schedulerService: SchedulerService,
+    private queueService: QueueService,
+    private conversationSettingsService: ConversationSettingsService,
+    private notificationPreferencesService: NotificationPreferencesService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.registerHandler(MESSAGE_DIGEST_JOB, (payload) =>
+      this.sendDigest(payload as MessageDigestPayload),
+    );
+    this.queueService.registerUnreadMessagesLookup(
+      async (recipientId, messageIds) =>
+        (await this.getUnreadMessages(recipientId, messageIds)).map(
+          (message) => message.id,
+        ),
+    );
+  }
+
+  /**
+   * Add a message to the recipient's pending digest for the conversation, opening one if needed
+   */
+  async enqueue(notification: UnreadMessageNotification): Promise<void> {
+    const key = this.getDigestKey(
+      notification.conversationId,
+      notification.recipientId,
+    );
+    const entry: MessageDigestEntry = {
+      messageId: notification.messageId,
+      senderName: notification.senderName,
+      attachmentCount: notification.attachmentCount,
+    };
+
+    const payload: MessageDigestPayload = {
+      conversationId: notification.conversationId,
+      recipientId: notification.recipientId,
+      recipientEmail: notification.recipientEmail,
+      recipientName: notification.recipientName,
+      senderEmail: notification.senderEmail,
+      senderName: notification.senderName,
+      messages: [entry],
+    };
+
+    // Recipients who opted out of digests get their own job per message, still delayed
+    // briefly so a message read straight away is not emailed
+    if (
+      (await this.notificationPreferencesService.getMessageEmailMode(
+        notification.recipientId,
+      )) === 'immediate'
+    ) {
+      const delaySeconds = Number(
+        this.configService.get('MESSAGE_IMMEDIATE_EMAIL_DELAY_SECONDS') ??
+          DEFAULT_IMMEDIATE_EMAIL_DELAY_SECONDS,
+      );
+      await this.schedulerService.schedule(
+        MESSAGE_DIGEST_JOB,
+        payload,
+        new Date(Date.now() + delaySeconds * 1000),
+        `${key}:${notification.messageId}`,
+      );
+      return;
+    }
+
+    const appended = await this.schedulerService.appendToPending(
+      MESSAGE_DIGEST_JOB,
+      key,
+      'messages',
+      entry,
+    );
+    if (appended) {
+      this.logger.log(
+        `Message ${notification.messageId} added to pending digest ${key}`,
+      );
+      return;
+    }
+
+    // The window starts with the first unread message, so later ones wait less
+    const windowSeconds = Number(
+      this.configService.get('MESSAGE_DIGEST_WINDOW_SECONDS') ??
+        DEFAULT_DIGEST_WINDOW_SECONDS,
+    );
+
+    await this.schedulerService.schedule(
+      MESSAGE_DIGEST_JOB,
+      payload,
+      new Date(Date.now() + windowSeconds * 1000),
+      key,
+    );
+    this.logger.log(`Digest ${key} scheduled in ${windowSeconds} seconds`);
+  }
+
+  /**
+   * Drop the recipient's pending digest and per-message emails once they have read the conversation
+   */
+  async cancelForRecipient(
+    conversationId: string,
+    recipientId: string,
+  ): Promise<void> {
+    const key = this.getDigestKey(conversationId, recipientId);
+    await this.schedulerService.cancel(MESSAGE_DIGEST_JOB, key);
+    await this.schedulerService.cancelByKeyPrefix(
+      MESSAGE_DIGEST_JOB,
+      `${key}:`,
+    );
+  }
+
+  /**
+   * Take a message the recipient has read out of their pending digest and drop its own email
+   */
+  async cancelForMessage(
+    conversationId: string,
+    recipientId: string,
+    messageId: string,
+  ): Promise<void> {
+    const key = this.getDigestKey(conversationId, recipientId);
+    await this.schedulerService.cancel(
+      MESSAGE_DIGEST_JOB,
+      `${key}:${messageId}`,
+    );
+    // A digest left empty is skipped when its window closes
+    await this.schedulerService.removeFromPending(
+      MESSAGE_DIGEST_JOB,
+      key,
+      'messages',
+      { messageId },
+    );
+  }
+
+  /**
+   * Email the messages of a digest that are still unread when its window closes
+   */
+  private async sendDigest(payload: MessageDigestPayload): Promise<void> {
+    const unreadMessages = await this.getUnreadMessages(
+      payload.recipientId,
+      payload.messages.map((entry) => entry.messageId),
+    );
+    if (unreadMessages.length === 0) {
+      this.logger.log(
+        `Digest for conversation ${payload.conversationId} skipped - everything was read or unsent`,
+      );
+      return;
+    }
+
+    if (
+      await this.conversationSettingsService.isMuted(
+        payload.conversationId,
+        payload.recipientId,
+      )
+    ) {
+      this.logger.log(
+        `Digest for conversation ${payload.conversationId} skipped - muted by ${payload.recipientId}`,
+      );
+      return;
+    }
+
+    const entries = new Map(
+      payload.messages.map((entry) => [entry.messageId, entry]),
+    );
+
+    await this.queueService.sendMessageDigest({
+      senderEmail: payload.senderEmail,
+      senderName: payload.senderName,
+      recipientId: payload.recipientId,
+      recipientEmail: payload.recipientEmail,
+      recipientName: payload.recipientName,
+      conversationId: payload.conversationId,
+      messages: unreadMessages.map((message) => {
+        const entry = entries.get(message.id);
+        return {
+          messageId: message.id,
+          senderName: entry?.senderName ?? payload.senderName,
+          content: this.getPreview(
+            message.content,
+            entry?.attachmentCount ?? 0,
+          ),
+          sentAt: message.createdAt.toISOString(),
+        };
+      }),
+    });
+
+    this.logger.log(
+      `Digest with ${unreadMessages.length} message(s) queued for ${payload.recipientEmail}`,
+    );
+  }
+
+  private async getUnreadMessages(
+    recipientId: string,
+    messageIds: string[],
+  ): Promise<Message[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    const messages = await this.messageRepository.find({
+      where: { id: In(messageIds) },
+      order: { createdAt: 'ASC' },
+    });
+
+    // Group-addressed messages are read per participant through receipts
+    const receipts = await this.receiptRepository.find({
+      where: { messageId: In(messageIds), userId: recipientId },
+    });
+    const readReceiptIds = new Set(
+      receipts
+        .filter((receipt) => receipt.readAt)
+        .map((receipt) => receipt.messageId),
+    );
+
+    return messages.filter(
+      (message) =>
+        !message.deletedAt &&
+        !message.receivedAt &&
+        !readReceiptIds.has(message.id),
+    );
+  }
+
+  private getDigestKey(conversationId: string, recipientId: string): string {
+    return `${conversationId}:${recipientId}`;
+  }
+
+  private getPreview(content: string, attachmentCount: number): string {
+    if (!content && attachmentCount > 0) {
+      return `📎 ${attachmentCount} attachment${attachmentCount > 1 ? 's' : ''}`;
+    }
+
+    return content.length > PREVIEW_LENGTH
+      ? content.substring(0, PREVIEW_LENGTH) + '...'
+      : content;
+  }
+}
@@ -1,23 +1,81 @@
-import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, In, Repository, SelectQueryBuilder } from 'typeorm';
 import { randomUUID } from 'crypto';
 import { Message } from '../entities/message.entity';
-import { QueueService } from '../../queue/queue.service';
+import { MessageReceipt } from '../entities/message-receipt.entity';
+import { MessageEdit } from '../entities/message-edit.entity';
+import { HiddenMessage } from '../entities/hidden-message.entity';
+import { MessageReaction } from '../entities/message-reaction.entity';
 import { MessagingGateway } from '../messaging.gateway';
+import { ReactionService } from './reaction.service';
+import { AttachmentService } from './attachment.service';
+import { MessageDigestService } from './message-digest.service';
+import { ContentInspectionService } from './content-inspection.service';
 import {
   CreateMessageDto,
+  MessageRecipientDto,
   GetMessagesDto,
   MessageResponseDto,
-  PaginatedMessagesDto
+  MessageSnippetDto,
+  MessageEditResponseDto,
+  PaginatedMessagesDto,
+  CursorPaginatedMessagesDto,
+  SearchMessagesDto,
+  PaginatedSearchResultsDto,
+  MessageDeliveryStatusDto,
+  AttachmentResponseDto,
 } from '../dto';
+import {
+  CURSOR_TIMESTAMP_FORMAT,
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from '../utils/message-cursor';
+
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+export const MESSAGE_TOMBSTONE = 'This message was deleted';
+const SNIPPET_LENGTH = 100;
+// Must match the configuration of the IDX_Message_content_search index
+const SEARCH_CONFIG = 'english';
+
+// Shared by query builders and raw SQL, so columns are quoted and `message`/`conversation` are the expected aliases
+const UNREAD_CONDITION =
+  '((message."toId" = :userId AND message."receivedAt" IS NULL) OR ' +
+  '(message."toId" IS NULL AND message."fromId" != :userId AND :userId = ANY(conversation."userIds") AND NOT EXISTS (' +
+  'SELECT 1 FROM "MessageReceipt" receipt WHERE receipt."messageId" = message.id ' +
+  'AND receipt."userId" = :userId AND receipt."readAt" IS NOT NULL)))';
+const UNDELIVERED_CONDITION =
+  '((message."toId" = :userId AND message."deliveredAt" IS NULL AND message."receivedAt" IS NULL) OR ' +
+  '(message."toId" IS NULL AND message."fromId" != :userId AND :userId = ANY(conversation."userIds") AND NOT EXISTS (' +
+  'SELECT 1 FROM "MessageReceipt" receipt WHERE receipt."messageId" = message.id AND receipt."userId" = :userId ' +
+  'AND (receipt."deliveredAt" IS NOT NULL OR receipt."readAt" IS NOT NULL))))';
+const NOT_HIDDEN_CONDITION =
+  'NOT EXISTS (SELECT 1 FROM "HiddenMessage" hidden WHERE hidden."messageId" = message.id AND hidden."userId" = :viewerId)';
 
 @Injectable()
 export class MessageService {
   constructor(
     @InjectRepository(Message)
     private messageRepository: Repository<Message>,
-    private queueService: QueueService,
+    @InjectRepository(MessageReceipt)
+    private receiptRepository: Repository<MessageReceipt>,
+    @InjectRepository(MessageEdit)
+    private editRepository: Repository<MessageEdit>,
+    @InjectRepository(HiddenMessage)
+    private hiddenMessageRepository: Repository<HiddenMessage>,
+    private configService: ConfigService,
+    private reactionService: ReactionService,
+    private attachmentService: AttachmentService,
+    private messageDigestService: MessageDigestService,
+    private contentInspectionService: ContentInspectionService,
     @Inject(forwardRef(() => MessagingGateway))
     private messagingGateway: MessagingGateway,
   ) {}
@@ -25,100 +83,217 @@ export class MessageService {
   /**
    * Send a new message
    */
-  async sendMessage(createMessageDto: CreateMessageDto): Promise<MessageResponseDto> {
-    const { content, fromId, toId, conversationId, senderName, senderEmail, recipientName, recipientEmail } = createMessageDto;
+  async sendMessage(
+    createMessageDto: CreateMessageDto,
+  ): Promise<MessageResponseDto> {
+    const {
+      content,
+      fromId,
+      toId,
+      conversationId,
+      replyToId,
+      clientMessageId,
+      attachmentIds = [],
+      senderName,
+      senderEmail,
+    } = createMessageDto;
+
+    // A quoted message must live in the same conversation
+    let replyTo: Message | null = null;
+    if (replyToId) {
+      replyTo = await this.messageRepository.findOne({
+        where: { id: replyToId },
+      });
+
+      if (!replyTo || replyTo.conversationId !== conversationId) {
+        throw new BadRequestException(
+          'Replied message does not belong to this conversation',
+        );
+      }
+    }
+
+    await this.attachmentService.assertAttachable(
+      attachmentIds,
+      conversationId,
+      fromId,
+    );
+
+    // Masks or rejects contact details and payment talk according to policy
+    const inspection = this.contentInspectionService.inspect(content ?? '');
 
     // Create new message
     const message = new Message();
     message.id = randomUUID();
-    message.content = content;
+    message.content = inspection.content;
+    message.moderation = inspection.moderation;
     message.fromId = fromId;
-    message.toId = toId;
+    message.toId = toId ?? null;
     message.conversationId = conversationId;
+    message.replyToId = replyTo?.id ?? null;
+    message.clientMessageId = clientMessageId ?? null;
+
+    let savedMessage: Message;
+    let attachments: AttachmentResponseDto[];
+    try {
+      // The message is only stored if every attachment is still free to link
+      [savedMessage, attachments] =
+        await this.messageRepository.manager.transaction(async (manager) => {
+          const saved = await manager.save(message);
+          return [
+            saved,
+            await this.attachmentService.linkToMessage(
+              attachmentIds,
+              saved.id,
+              manager,
+            ),
+          ] as const;
+        });
+    } catch (error) {
+      // A concurrent retry stored the message first
+      if (clientMessageId && (error as { code?: string }).code === '23505') {
+        const existingMessage = await this.findByClientMessageId(
+          fromId,
+          clientMessageId,
+          conversationId,
+        );
+        if (existingMessage) {
+          return existingMessage;
+        }
+      }
+      throw error;
+    }
 
-    const savedMessage = await this.messageRepository.save(message);
-    
-    // SMART EMAIL NOTIFICATION: Check if message is read after 5 seconds
+    // SMART EMAIL NOTIFICATION: unread messages are batched into one digest email per recipient and conversation
     try {
       // Check if we have real user data for email notifications
-      if (senderEmail && recipientEmail && senderName && recipientName) {
-        console.log(`📧 Message sent - Starting 5 second timer to check if read`);
-        console.log(`🕐 Will check if message ${savedMessage.id} is read by ${recipientName} (${toId}) in 5 seconds`);
-        
-        // Schedule email notification check after 5 seconds
-        setTimeout(async () => {
-          try {
-            // Re-fetch the message to check if it has been read
-            const updatedMessage = await this.messageRepository.findOne({
-              where: { id: savedMessage.id }
-            });
-            
-            if (!updatedMessage) {
-              console.log(`❌ Message ${savedMessage.id} not found during email check`);
-              return;
-            }
-            
-            // Check if message has been read (receivedAt is not null)
-            if (updatedMessage.receivedAt) {
-              console.log(`✅ Message ${savedMessage.id} was READ by ${recipientName} - Skipping email notification`);
-              console.log(`📖 Message was read at: ${updatedMessage.receivedAt.toISOString()}`);
-            } else {
-              console.log(`📧 Message ${savedMessage.id} is still UNREAD after 5 seconds - Sending email notification`);
-              
-              await this.queueService.sendMessageNotification({
-                senderEmail: senderEmail,
-                recipientEmail: recipientEmail,
-                senderName: senderName,
-                recipientName: recipientName,
-                conversationId: conversationId,
-                messageContent: content.length > 100 ? content.substring(0, 100) + '...' : content
-              });
-              
-              console.log(`✅ Email notification queued for unread message to ${recipientEmail}`);
-            }
-          } catch (delayedEmailError) {
-            console.error('❌ Error during delayed email notification check:', delayedEmailError);
-          }
-        }, 5000); // 5 seconds delay
-        
-        console.log(`⏰ Email notification check scheduled for 5 seconds from now`);
+      const emailRecipients = this.getEmailRecipients(createMessageDto);
+      if (senderEmail && senderName && emailRecipients.length > 0) {
+        // Each recipient is queued under their own id so their preferences and mute settings apply
+        for (const recipient of emailRecipients) {
+          await this.messageDigestService.enqueue({
+            messageId: savedMessage.id,
+            conversationId,
+            recipientId: recipient.userId,
+            senderEmail,
+            senderName,
+            recipientEmail: recipient.email,
+            recipientName: recipient.name,
+            attachmentCount: attachments.length,
+          });
+        }
       } else {
         console.log('📧 Message email notification skipped - missing user data');
         console.log('📝 Missing fields:', {
           senderEmail: !senderEmail ? 'missing' : 'provided',
-          recipientEmail: !recipientEmail ? 'missing' : 'provided', 
           senderName: !senderName ? 'missing' : 'provided',
-          recipientName: !recipientName ? 'missing' : 'provided'
+          recipients: emailRecipients.length === 0 ? 'missing' : 'provided',
         });
-        console.log('💡 To enable email notifications, include senderName, senderEmail, recipientName, recipientEmail in the request');
+        console.log(
+          '💡 To enable email notifications, include senderName, senderEmail and recipientName, recipientEmail (or recipients for group messages) in the request',
+        );
       }
     } catch (emailError) {
       console.error('❌ Failed to process email notification:', emailError);
       // Don't fail the message sending if email notification fails
     }
 
-    return this.mapMessageToDto(savedMessage);
+    return {
+      ...this.mapMessageToDto(savedMessage),
+      replyTo: replyTo ? this.mapMessageToSnippet(replyTo) : null,
+      attachments,
+    };
+  }
+
+  /**
+   * Recipients to notify by email: the addressed participant, or every listed participant of a group message
+   */
+  private getEmailRecipients(
+    createMessageDto: CreateMessageDto,
+  ): MessageRecipientDto[] {
+    const {
+      fromId,
+      toId,
+      recipientName,
+      recipientEmail,
+      recipients = [],
+    } = createMessageDto;
+
+    if (toId) {
+      const recipient =
+        recipients.find((candidate) => candidate.userId === toId) ??
+        (recipientName && recipientEmail
+          ? { userId: toId, name: recipientName, email: recipientEmail }
+          : null);
+      return recipient ? [recipient] : [];
+    }
+
+    return recipients.filter((recipient) => recipient.userId !== fromId);
+  }
+
+  /**
+   * Find a message the sender already stored under this client id
+   */
+  async findByClientMessageId(
+    fromId: string,
+    clientMessageId: string,
+    conversationId: string,
+  ): Promise<MessageResponseDto | null> {
+    const message = await this.messageRepository.findOne({
+      where: { fromId, clientMessageId },
+    });
+    if (!message) {
+      return null;
+    }
+
+    if (message.conversationId !== conversationId) {
+      throw new ConflictException(
+        'clientMessageId was already used in another conversation',
+      );
+    }
+
+    const [messageDto] = await this.mapMessagesWithDetails([message]);
+    return messageDto;
   }
 
   /**
    * Get messages in a conversation with pagination
    */
-  async getMessages(query: GetMessagesDto): Promise<PaginatedMessagesDto> {
-    const { conversationId, page = 1, limit = 20, order = 'asc' } = query;
+  async getMessages(
+    query: GetMessagesDto,
+    userId: string,
+  ): Promise<PaginatedMessagesDto | CursorPaginatedMessagesDto> {
+    if (
+      query.pagination === 'cursor' ||
+      query.before ||
+      query.after ||
+      query.since
+    ) {
+      return this.getMessagesByCursor(query, userId);
+    }
+
+    const { conversationId, order = 'asc' } = query;
+    // The validation pipe does not transform, so numeric query params still arrive as strings
+    const page = Number(query.page ?? 1);
+    const limit = Number(query.limit ?? 20);
     const skip = (page - 1) * limit;
 
     // Determine sort order based on the order parameter
     const sortOrder = order.toUpperCase() as 'ASC' | 'DESC';
 
-    const [messages, total] = await this.messageRepository
+    const queryBuilder = this.messageRepository
       .createQueryBuilder('message')
-      .where('message.conversationId = :conversationId', { conversationId })
+      .where('message.conversationId = :conversationId', { conversationId });
+
+    const [messages, total] = await this.excludeHiddenMessages(
+      queryBuilder,
+      userId,
+    )
       .orderBy('message.createdAt', sortOrder)
       .skip(skip)
       .take(limit)
       .getManyAndCount();
 
-    const messageDtos = messages.map(message => this.mapMessageToDto(message));
+    const messageDtos = await this.mapMessagesWithDetails(messages);
 
     return {
       data: messageDtos,
@@ -130,18 +305,198 @@ export class MessageService {
   }
 
   /**
-   * Get last message in a conversation
+   * Get messages with keyset pagination on (createdAt, id), or everything changed since a sync cursor
+   */
+  private async getMessagesByCursor(
+    query: GetMessagesDto,
+    userId: string,
+  ): Promise<CursorPaginatedMessagesDto> {
+    const { conversationId, before, after, since } = query;
+    const limit = Number(query.limit ?? 20);
+
+    if ([before, after, since].filter(Boolean).length > 1) {
+      throw new BadRequestException(
+        'Only one of before, after or since can be used',
+      );
+    }
+
+    const cursorValue = before ?? after ?? since;
+    const cursor = cursorValue ? decodeMessageCursor(cursorValue) : null;
+
+    // Sync mode walks updatedAt forward; paging walks createdAt back (default) or forward
+    const column = since ? 'updatedAt' : 'createdAt';
+    const direction = after || since ? 'ASC' : 'DESC';
+
+    // Taken before the page is read so changes made meanwhile are picked up by the next sync
+    const syncCursor = since ? null : await this.getSyncCursor(conversationId);
+
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .addSelect(
+        `to_char(message.${column}, '${CURSOR_TIMESTAMP_FORMAT}')`,
+        'cursor_timestamp',
+      )
+      .where('message.conversationId = :conversationId', { conversationId });
+
+    if (cursor) {
+      queryBuilder.andWhere(
+        `(message.${column}, message.id) ${direction === 'ASC' ? '>' : '<'} (CAST(:cursorTimestamp AS timestamp), CAST(:cursorId AS uuid))`,
+        { cursorTimestamp: cursor.timestamp, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { entities, raw } = await this.excludeHiddenMessages(
+      queryBuilder,
+      userId,
+    )
+      .orderBy(`message.${column}`, direction)
+      .addOrderBy('message.id', direction)
+      .limit(limit + 1)
+      .getRawAndEntities<{ cursor_timestamp: string }>();
+
+    const hasMore = entities.length > limit;
+    const messages = entities.slice(0, limit);
+    const lastIndex = messages.length - 1;
+    const nextCursor =
+      lastIndex >= 0
+        ? encodeMessageCursor({
+            timestamp: raw[lastIndex].cursor_timestamp,
+            id: messages[lastIndex].id,
+          })
+        : (cursorValue ?? null);
+
+    // Pages are always returned oldest first, whichever direction they were read in
+    const messageDtos = await this.mapMessagesWithDetails(
+      direction === 'DESC' ? [...messages].reverse() : messages,
+    );
+
+    return {
+      data: messageDtos,
+      limit,
+      hasMore,
+      nextCursor,
+      syncCursor: since ? nextCursor : syncCursor,
+    };
+  }
+
+  /**
+   * Cursor positioned at the most recently changed message of a conversation
    */
-  async getLastMessage(conversationId: string): Promise<MessageResponseDto | null> {
-    const lastMessage = await this.messageRepository
+  private async getSyncCursor(conversationId: string): Promise<string | null> {
+    const latest = await this.messageRepository
       .createQueryBuilder('message')
+      .select('message.id', 'id')
+      .addSelect(
+        `to_char(message.updatedAt, '${CURSOR_TIMESTAMP_FORMAT}')`,
+        'timestamp',
+      )
       .where('message.conversationId = :conversationId', { conversationId })
+      .orderBy('message.updatedAt', 'DESC')
+      .addOrderBy('message.id', 'DESC')
+      .limit(1)
+      .getRawOne<{ id: string; timestamp: string }>();
+
+    return latest ? encodeMessageCursor(latest) : null;
+  }
+
+  /**
+   * Map messages to DTOs including reactions, quoted snippets and attachments
+   */
+  private async mapMessagesWithDetails(
+    messages: Message[],
+  ): Promise<MessageResponseDto[]> {
+    const reactions = await this.reactionService.getReactionSummaries(
+      messages.map((message) => message.id),
+    );
+    const replySnippets = await this.getReplySnippets(messages);
+    const attachments = await this.attachmentService.getAttachmentsForMessages(
+      messages.map((message) => message.id),
+    );
+
+    return messages.map((message) => ({
+      ...this.mapMessageToDto(message),
+      replyTo: message.replyToId
+        ? (replySnippets.get(message.replyToId) ?? null)
+        : null,
+      reactions: reactions.get(message.id) ?? [],
+      attachments: attachments.get(message.id) ?? [],
+    }));
+  }
+
+  /**
+   * Get last message in a conversation visible to the user
+   */
+  async getLastMessage(
+    conversationId: string,
+    userId: string,
+  ): Promise<MessageResponseDto | null> {
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .where('message.conversationId = :conversationId', { conversationId });
+
+    const lastMessage = await this.excludeHiddenMessages(queryBuilder, userId)
       .orderBy('message.createdAt', 'DESC')
       .getOne();
 
     return lastMessage ? this.mapMessageToDto(lastMessage) : null;
   }
 
+  /**
+   * Last visible message and unread count for each of the given conversations, in a single query
+   */
+  async getInboxSummaries(
+    conversationIds: string[],
+    userId: string,
+  ): Promise<
+    Map<string, { lastMessage: MessageResponseDto | null; unreadCount: number }>
+  > {
+    const summaries = new Map<
+      string,
+      { lastMessage: MessageResponseDto | null; unreadCount: number }
+    >();
+    if (conversationIds.length === 0) {
+      return summaries;
+    }
+
+    const [sql, parameters] =
+      this.messageRepository.manager.connection.driver.escapeQueryWithParameters(
+        `SELECT inbox.id AS "inboxId", last_message.*, unread.count AS "unreadCount"
+       FROM "Conversation" inbox
+       LEFT JOIN LATERAL (
+         SELECT message.id, message.content, message."fromId", message."toId", message."conversationId", message."clientMessageId",
+                message."moderation", message."replyToId", message."createdAt", message."updatedAt", message."deliveredAt", message."receivedAt",
+                message."editedAt", message."deletedAt"
+         FROM "Message" message
+         WHERE message."conversationId" = inbox.id AND ${NOT_HIDDEN_CONDITION}
+         ORDER BY message."createdAt" DESC, message.id DESC
+         LIMIT 1
+       ) last_message ON true
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*)::int AS count
+         FROM "Message" message
+         INNER JOIN "Conversation" conversation ON conversation.id = message."conversationId"
+         WHERE message."conversationId" = inbox.id AND message."deletedAt" IS NULL
+           AND ${UNREAD_CONDITION} AND ${NOT_HIDDEN_CONDITION}
+       ) unread ON true
+       WHERE inbox.id IN (:...conversationIds)`,
+        { conversationIds, userId, viewerId: userId },
+        {},
+      );
+
+    const rows: Array<Message & { inboxId: string; unreadCount: number }> =
+      await this.messageRepository.query(sql, parameters);
+
+    for (const row of rows) {
+      summaries.set(row.inboxId, {
+        lastMessage: row.id ? this.mapMessageToDto(row) : null,
+        unreadCount: row.unreadCount,
+      });
+    }
+
+    return summaries;
+  }
+
   /**
    * Mark message as read
    */
@@ -154,6 +509,41 @@ export class MessageService {
       throw new NotFoundException('Message not found');
     }
 
+    // Messages addressed to the whole conversation are tracked per participant
+    if (!message.toId) {
+      if (message.fromId === userId) {
+        throw new BadRequestException(
+          'You cannot mark your own message as read',
+        );
+      }
+
+      // Reading implies delivery, so a delivered-only receipt is upgraded
+      const receipts: Array<{ messageId: string }> =
+        await this.receiptRepository.query(
+          `INSERT INTO "MessageReceipt" ("messageId", "userId", "deliveredAt", "readAt") VALUES ($1, $2, NOW(), NOW())
+         ON CONFLICT ("messageId", "userId") DO UPDATE SET "readAt" = EXCLUDED."readAt",
+           "deliveredAt" = COALESCE("MessageReceipt"."deliveredAt", EXCLUDED."deliveredAt")
+         WHERE "MessageReceipt"."readAt" IS NULL
+         RETURNING "messageId"`,
+          [messageId, userId],
+        );
+
+      // A new receipt is a change to the message for clients syncing with `since`
+      if (receipts.length > 0) {
+        await this.messageRepository.update(
+          { id: messageId },
+          { updatedAt: () => 'CURRENT_TIMESTAMP' },
+        );
+        await this.messageDigestService.cancelForMessage(
+          message.conversationId,
+          userId,
+          messageId,
+        );
+      }
+
+      return this.mapMessageToDto(message);
+    }
+
     // Only the recipient can mark message as read
     if (message.toId !== userId) {
       throw new BadRequestException('You can only mark messages sent to you as read');
@@ -162,35 +552,145 @@ export class MessageService {
     // Update receivedAt if not already set
     if (!message.receivedAt) {
       message.receivedAt = new Date();
+      message.deliveredAt = message.deliveredAt ?? message.receivedAt;
       await this.messageRepository.save(message);
+      await this.messageDigestService.cancelForMessage(
+        message.conversationId,
+        userId,
+        messageId,
+      );
     }
 
     return this.mapMessageToDto(message);
   }
 
+  /**
+   * Messages addressed to the user that have not reached any of their devices yet, oldest first
+   */
+  async getUndeliveredMessages(
+    userId: string,
+    limit = 100,
+  ): Promise<MessageResponseDto[]> {
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .innerJoin('message.conversation', 'conversation')
+      .where(UNDELIVERED_CONDITION, { userId })
+      .andWhere('message.deletedAt IS NULL');
+
+    const messages = await this.excludeHiddenMessages(queryBuilder, userId)
+      .orderBy('message.createdAt', 'ASC')
+      .addOrderBy('message.id', 'ASC')
+      .limit(limit)
+      .getMany();
+
+    return this.mapMessagesWithDetails(messages);
+  }
+
+  /**
+   * Record that messages reached the user, returning the ones that were not delivered before
+   */
+  async markMessagesDelivered(
+    messageIds: string[],
+    userId: string,
+  ): Promise<MessageDeliveryStatusDto[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    const deliveredAt = new Date();
+
+    // Direct messages keep the state on the message itself
+    const directResult = await this.messageRepository
+      .createQueryBuilder()
+      .update(Message)
+      .set({ deliveredAt })
+      .where('id IN (:...messageIds)', { messageIds })
+      .andWhere('toId = :userId', { userId })
+      .andWhere('deliveredAt IS NULL')
+      .andWhere('receivedAt IS NULL')
+      .returning(['id', 'fromId', 'conversationId'])
+      .execute();
+
+    // Group-addressed messages get a delivered-only receipt for this participant
+    // The statement ends in an UPDATE, so the driver returns [rows, affectedCount]
+    const [groupRows]: [
+      Array<{ id: string; fromId: string; conversationId: string }>,
+      number,
+    ] = await this.messageRepository.query(
+      `WITH receipts AS (
+         INSERT INTO "MessageReceipt" ("messageId", "userId", "deliveredAt")
+         SELECT message.id, $2, $3 FROM "Message" message
+         INNER JOIN "Conversation" conversation ON conversation.id = message."conversationId"
+         WHERE message.id = ANY($1::uuid[]) AND message."toId" IS NULL AND message."fromId" != $2
+           AND $2 = ANY(conversation."userIds")
+         ON CONFLICT ("messageId", "userId") DO UPDATE SET "deliveredAt" = EXCLUDED."deliveredAt"
+         WHERE "MessageReceipt"."deliveredAt" IS NULL AND "MessageReceipt"."readAt" IS NULL
+         RETURNING "messageId"
+       )
+       UPDATE "Message" message SET "updatedAt" = NOW() FROM receipts WHERE message.id = receipts."messageId"
+       RETURNING message.id, message."fromId", message."conversationId"`,
+      [messageIds, userId, deliveredAt],
+    );
+
+    const rows = [
+      ...(directResult.raw as Array<{
+        id: string;
+        fromId: string;
+        conversationId: string;
+      }>),
+      ...groupRows,
+    ];
+
+    return rows.map((row) => ({
+      messageId: row.id,
+      conversationId: row.conversationId,
+      fromId: row.fromId,
+      deliveredTo: userId,
+      delivered: true,
+      deliveredAt,
+    }));
+  }
+
   /**
    * Get unread message count for a user
    */
   async getUnreadMessageCount(userId: string): Promise<number> {
-    return await this.messageRepository
-      .createQueryBuilder('message')
-      .where('message.toId = :userId', { userId })
-      .andWhere('message.receivedAt IS NULL')
-      .getCount();
+    return await this.createUnreadQuery(userId).getCount();
   }
 
   /**
    * Get unread message count for a specific conversation
    */
   async getUnreadMessageCountForConversation(conversationId: string, userId: string): Promise<number> {
-    return await this.messageRepository
-      .createQueryBuilder('message')
-      .where('message.conversationId = :conversationId', { conversationId })
-      .andWhere('message.toId = :userId', { userId })
-      .andWhere('message.receivedAt IS NULL')
+    return await this.createUnreadQuery(userId)
+      .andWhere('message.conversationId = :conversationId', { conversationId })
       .getCount();
   }
 
+  /**
+   * Build a query for messages the user has not read yet, both direct (toId) and group-addressed
+   */
+  private createUnreadQuery(userId: string) {
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .innerJoin('message.conversation', 'conversation')
+      .where(UNREAD_CONDITION, { userId })
+      // Unsent messages no longer count as unread
+      .andWhere('message.deletedAt IS NULL');
+
+    return this.excludeHiddenMessages(queryBuilder, userId);
+  }
+
+  /**
+   * Filter out messages the user deleted for themselves
+   */
+  excludeHiddenMessages(
+    queryBuilder: SelectQueryBuilder<Message>,
+    userId: string,
+  ): SelectQueryBuilder<Message> {
+    return queryBuilder.andWhere(NOT_HIDDEN_CONDITION, { viewerId: userId });
+  }
+
   /**
    * Mark all messages in a conversation as read
    */
@@ -198,18 +698,63 @@ export class MessageService {
     await this.messageRepository
       .createQueryBuilder()
       .update(Message)
-      .set({ receivedAt: new Date() })
+      .set({
+        receivedAt: new Date(),
+        deliveredAt: () => 'COALESCE("deliveredAt", CURRENT_TIMESTAMP)',
+      })
       .where('conversationId = :conversationId', { conversationId })
       .andWhere('toId = :userId', { userId })
       .andWhere('receivedAt IS NULL')
       .execute();
+
+    // Group-addressed messages get a receipt for this participant, and newly read ones are bumped for sync
+    await this.messageRepository.query(
+      `WITH receipts AS (
+         INSERT INTO "MessageReceipt" ("messageId", "userId", "deliveredAt", "readAt")
+         SELECT message.id, $1, NOW(), NOW() FROM "Message" message
+         WHERE message."conversationId" = $2 AND message."toId" IS NULL AND message."fromId" != $1
+         ON CONFLICT ("messageId", "userId") DO UPDATE SET "readAt" = EXCLUDED."readAt",
+           "deliveredAt" = COALESCE("MessageReceipt"."deliveredAt", EXCLUDED."deliveredAt")
+         WHERE "MessageReceipt"."readAt" IS NULL
+         RETURNING "messageId"
+       )
+       UPDATE "Message" SET "updatedAt" = NOW() WHERE id IN (SELECT "messageId" FROM receipts)`,
+      [userId, conversationId],
+    );
+
+    // Nothing left to email about once the whole conversation is read
+    await this.messageDigestService.cancelForRecipient(conversationId, userId);
   }
 
   /**
-   * Delete all messages in a conversation
+   * Delete all messages in a conversation, returning the attachment files to remove once committed
    */
-  async deleteMessagesByConversation(conversationId: string): Promise<void> {
-    await this.messageRepository.delete({ conversationId });
+  async deleteMessagesByConversation(
+    conversationId: string,
+    manager: EntityManager = this.messageRepository.manager,
+  ): Promise<string[]> {
+    const storageKeys = await this.attachmentService.deleteForConversation(
+      conversationId,
+      manager,
+    );
+    await this.reactionService.deleteReactionsForConversation(
+      conversationId,
+      manager,
+    );
+    for (const entity of [MessageReceipt, MessageEdit, HiddenMessage]) {
+      await manager
+        .createQueryBuilder()
+        .delete()
+        .from(entity)
+        .where(
+          '"messageId" IN (SELECT id FROM "Message" WHERE "conversationId" = :conversationId)',
+          { conversationId },
+        )
+        .execute();
+    }
+    await manager.delete(Message, { conversationId });
+
+    return storageKeys;
   }
 
   /**
@@ -228,9 +773,64 @@ export class MessageService {
   }
 
   /**
-   * Delete a specific message
+   * Get several messages with their details, keyed by id; missing ids are left out
    */
-  async deleteMessage(messageId: string, userId: string): Promise<void> {
+  async getMessagesByIds(
+    messageIds: string[],
+  ): Promise<Map<string, MessageResponseDto>> {
+    if (messageIds.length === 0) {
+      return new Map();
+    }
+
+    const messages = await this.messageRepository.find({
+      where: { id: In(messageIds) },
+    });
+    const messageDtos = await this.mapMessagesWithDetails(messages);
+
+    return new Map(messageDtos.map((message) => [message.id, message]));
+  }
+
+  /**
+   * Messages just before and after one message of its conversation, oldest first
+   */
+  async getMessageContext(
+    messageId: string,
+    radius: number,
+  ): Promise<{ before: MessageResponseDto[]; after: MessageResponseDto[] }> {
+    // Compared in SQL so the timestamp keeps its full precision
+    const position =
+      '(SELECT target."createdAt", target.id FROM "Message" target WHERE target.id = :messageId)';
+    const readAround = (operator: '<' | '>', direction: 'ASC' | 'DESC') =>
+      this.messageRepository
+        .createQueryBuilder('message')
+        .where(
+          'message.conversationId = (SELECT target."conversationId" FROM "Message" target WHERE target.id = :messageId)',
+          { messageId },
+        )
+        .andWhere(`(message.createdAt, message.id) ${operator} ${position}`)
+        .orderBy('message.createdAt', direction)
+        .addOrderBy('message.id', direction)
+        .limit(radius)
+        .getMany();
+
+    const [before, after] = await Promise.all([
+      readAround('<', 'DESC'),
+      readAround('>', 'ASC'),
+    ]);
+
+    return {
+      before: await this.mapMessagesWithDetails(before.reverse()),
+      after: await this.mapMessagesWithDetails(after),
+    };
+  }
+
+  /**
+   * Hide a message from the user's own view ("delete for me")
+   */
+  async hideMessageForUser(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageResponseDto> {
     const message = await this.messageRepository.findOne({
       where: { id: messageId }
     });
@@ -239,27 +839,161 @@ export class MessageService {
       throw new NotFoundException('Message not found');
     }
 
-    // Only the sender can delete their message
+    await this.hiddenMessageRepository
+      .createQueryBuilder()
+      .insert()
+      .into(HiddenMessage)
+      .values({ messageId, userId, hiddenAt: new Date() })
+      .orIgnore()
+      .execute();
+
+    return this.mapMessageToDto(message);
+  }
+
+  /**
+   * Unsend a message ("delete for everyone"): the row is kept with its content replaced by a tombstone
+   */
+  async unsendMessage(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageRepository.findOne({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // Only the sender can delete their message for everyone
     if (message.fromId !== userId) {
       throw new BadRequestException('You can only delete your own messages');
     }
 
-    await this.messageRepository.delete(messageId);
+    if (message.deletedAt) {
+      return this.mapMessageToDto(message);
+    }
+
+    const savedMessage = await this.messageRepository.manager.transaction(
+      async (manager) => {
+        // Previous versions would leak the removed content
+        await manager.delete(MessageEdit, { messageId });
+        await manager.delete(MessageReaction, { messageId });
+
+        message.content = MESSAGE_TOMBSTONE;
+        message.deletedAt = new Date();
+        return await manager.save(message);
+      },
+    );
+
+    // Files of an unsent message must not stay downloadable
+    await this.attachmentService.deleteForMessage(messageId);
+
+    return this.mapMessageToDto(savedMessage);
+  }
+
+  /**
+   * Edit the content of a message, keeping the previous version in the edit history
+   */
+  async editMessage(
+    messageId: string,
+    userId: string,
+    content: string,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageRepository.findOne({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // Only the sender can edit their message
+    if (message.fromId !== userId) {
+      throw new BadRequestException('You can only edit your own messages');
+    }
+
+    const windowMinutes = Number(
+      this.configService.get('MESSAGE_EDIT_WINDOW_MINUTES') ??
+        DEFAULT_EDIT_WINDOW_MINUTES,
+    );
+    if (Date.now() - message.createdAt.getTime() > windowMinutes * 60 * 1000) {
+      throw new BadRequestException(
+        `Messages can only be edited within ${windowMinutes} minutes of sending`,
+      );
+    }
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Deleted messages cannot be edited');
+    }
+
+    if (message.content === content) {
+      return this.mapMessageToDto(message);
+    }
+
+    const inspection = this.contentInspectionService.inspect(content);
+
+    const editedAt = new Date();
+    const savedMessage = await this.messageRepository.manager.transaction(
+      async (manager) => {
+        const edit = new MessageEdit();
+        edit.id = randomUUID();
+        edit.messageId = message.id;
+        edit.previousContent = message.content;
+        edit.editedAt = editedAt;
+        await manager.save(edit);
+
+        message.content = inspection.content;
+        message.moderation = inspection.moderation;
+        message.editedAt = editedAt;
+        return await manager.save(message);
+      },
+    );
+
+    return this.mapMessageToDto(savedMessage);
+  }
+
+  /**
+   * Get the previous versions of a message, oldest first
+   */
+  async getEditHistory(messageId: string): Promise<MessageEditResponseDto[]> {
+    const edits = await this.editRepository.find({
+      where: { messageId },
+      order: { editedAt: 'ASC' },
+    });
+
+    return edits.map((edit) => ({
+      id: edit.id,
+      messageId: edit.messageId,
+      previousContent: edit.previousContent,
+      editedAt: edit.editedAt,
+    }));
   }
 
   /**
    * Get messages between two users across all conversations
    */
-  async getMessagesBetweenUsers(userOne: string, userTwo: string, page = 1, limit = 50): Promise<PaginatedMessagesDto> {
+  async getMessagesBetweenUsers(
+    userOne: string,
+    userTwo: string,
+    userId: string,
+    page = 1,
+    limit = 50,
+  ): Promise<PaginatedMessagesDto> {
     const skip = (page - 1) * limit;
 
-    const [messages, total] = await this.messageRepository
+    const queryBuilder = this.messageRepository
       .createQueryBuilder('message')
       .where(
-        '(message.fromId = :userOne AND message.toId = :userTwo) OR ' +
-        '(message.fromId = :userTwo AND message.toId = :userOne)',
-        { userOne, userTwo }
-      )
+        '((message.fromId = :userOne AND message.toId = :userTwo) OR ' +
+          '(message.fromId = :userTwo AND message.toId = :userOne))',
+        { userOne, userTwo },
+      );
+
+    const [messages, total] = await this.excludeHiddenMessages(
+      queryBuilder,
+      userId,
+    )
       .orderBy('message.createdAt', 'DESC')
       .skip(skip)
       .take(limit)
@@ -276,6 +1010,134 @@ export class MessageService {
     };
   }
 
+  /**
+   * Full-text search over messages in conversations the user participates in
+   */
+  async searchMessages(
+    query: SearchMessagesDto,
+    userId: string,
+  ): Promise<PaginatedSearchResultsDto> {
+    const { q, conversationId, withUserId, from, to } = query;
+    const page = Number(query.page ?? 1);
+    const limit = Number(query.limit ?? 20);
+    const tsQuery = `websearch_to_tsquery('${SEARCH_CONFIG}', :q)`;
+
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .where(`to_tsvector('${SEARCH_CONFIG}', message.content) @@ ${tsQuery}`, {
+        q,
+      })
+      .andWhere(
+        'EXISTS (SELECT 1 FROM "Conversation" conversation WHERE conversation.id = message."conversationId" ' +
+          'AND :userId = ANY(conversation."userIds"))',
+        { userId },
+      )
+      // Unsent messages only keep a tombstone and are never searchable
+      .andWhere('message.deletedAt IS NULL');
+
+    if (conversationId) {
+      queryBuilder.andWhere('message.conversationId = :conversationId', {
+        conversationId,
+      });
+    }
+
+    if (withUserId) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM "Conversation" shared WHERE shared.id = message."conversationId" ' +
+          'AND :withUserId = ANY(shared."userIds"))',
+        { withUserId },
+      );
+    }
+
+    if (from) {
+      queryBuilder.andWhere('message.createdAt >= :from', {
+        from: new Date(from),
+      });
+    }
+
+    if (to) {
+      queryBuilder.andWhere('message.createdAt <= :to', { to: new Date(to) });
+    }
+
+    this.excludeHiddenMessages(queryBuilder, userId);
+
+    const total = await queryBuilder.getCount();
+
+    // Content is escaped before highlighting so the <mark> tags are the only markup in the snippet
+    const { entities, raw } = await queryBuilder
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', replace(replace(replace(message.content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), ` +
+          `${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, FragmentDelimiter=" … "')`,
+        'search_highlight',
+      )
+      .addSelect(
+        `ts_rank(to_tsvector('${SEARCH_CONFIG}', message.content), ${tsQuery})`,
+        'search_rank',
+      )
+      .orderBy('search_rank', 'DESC')
+      .addOrderBy('message.createdAt', 'DESC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawAndEntities<{ search_highlight: string; search_rank: string }>();
+
+    return {
+      data: entities.map((message, index) => ({
+        ...this.mapMessageToDto(message),
+        highlight: raw[index].search_highlight,
+        rank: Number(raw[index].search_rank),
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Load snippets of the messages quoted by the given messages, keyed by id
+   */
+  private async getReplySnippets(
+    messages: Message[],
+  ): Promise<Map<string, MessageSnippetDto>> {
+    const replyToIds = [
+      ...new Set(
+        messages
+          .map((message) => message.replyToId)
+          .filter((id): id is string => !!id),
+      ),
+    ];
+    if (replyToIds.length === 0) {
+      return new Map();
+    }
+
+    const quotedMessages = await this.messageRepository.find({
+      where: { id: In(replyToIds) },
+    });
+
+    return new Map(
+      quotedMessages.map((quoted) => [
+        quoted.id,
+        this.mapMessageToSnippet(quoted),
+      ]),
+    );
+  }
+
+  /**
+   * Map a quoted message to a short snippet
+   */
+  mapMessageToSnippet(message: Message): MessageSnippetDto {
+    return {
+      id: message.id,
+      fromId: message.fromId,
+      content:
+        message.content.length > SNIPPET_LENGTH
+          ? message.content.substring(0, SNIPPET_LENGTH) + '...'
+          : message.content,
+      createdAt: message.createdAt,
+      deleted: !!message.deletedAt,
+    };
+  }
+
   /**
    * Map message entity to DTO
    */
@@ -286,8 +1148,26 @@ export class MessageService {
       fromId: message.fromId,
       toId: message.toId,
       conversationId: message.conversationId,
+      clientMessageId: message.clientMessageId ?? null,
+      moderation: message.moderation
+        ? {
+            action: message.moderation.action,
+            detected: Array.from(
+              new Set(
+                message.moderation.detections.map(
+                  (detection) => detection.type,
+                ),
+              ),
+            ),
+          }
+        : null,
+      replyToId: message.replyToId,
       createdAt: message.createdAt,
-      receivedAt: message.receivedAt
+      updatedAt: message.updatedAt,
+      deliveredAt: message.deliveredAt,
+      receivedAt: message.receivedAt,
+      editedAt: message.editedAt,
+      deletedAt: message.deletedAt,
     };
   }
 }
\ No newline at end of file
@@ -1,56 +1,317 @@
-import { Injectable, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConversationService } from './conversation.service';
 import { MessageService } from './message.service';
+import { ReactionService } from './reaction.service';
+import { AttachmentService } from './attachment.service';
+import { PresenceService } from './presence.service';
+import { ConversationSettingsService } from './conversation-settings.service';
+import { TranscriptService, TranscriptFormat } from './transcript.service';
+import { BlockService } from './block.service';
+import { ReportService } from './report.service';
+import { SendRateLimitService } from './send-rate-limit.service';
+import {
+  ScheduledMessageService,
+  SCHEDULED_MESSAGE_JOB,
+} from './scheduled-message.service';
+import { SchedulerService } from '../../scheduler/scheduler.service';
+import { Readable } from 'stream';
+import { DataSource } from 'typeorm';
+import { Conversation } from '../entities/conversation.entity';
+import { MessagingGateway } from '../messaging.gateway';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { SUPPORT_ROLES } from '../../auth/decorators/roles.decorator';
 import {
   CreateConversationDto,
+  AddParticipantsDto,
   CreateMessageDto,
   GetConversationsDto,
   GetMessagesDto,
   ConversationResponseDto,
   MessageResponseDto,
+  MessageEditResponseDto,
+  MessageDeletedEventDto,
+  MessageReactionEventDto,
+  AttachmentResponseDto,
+  PresenceResponseDto,
   PaginatedConversationsDto,
   PaginatedMessagesDto,
-  ConversationWithLastMessageDto
+  CursorPaginatedMessagesDto,
+  SearchMessagesDto,
+  PaginatedSearchResultsDto,
+  ConversationWithLastMessageDto,
+  ConversationSettingsResponseDto,
+  UpdateConversationSettingsDto,
+  MessageDeliveryStatusDto,
+  ReportMessageDto,
+  GetReportsDto,
+  UpdateReportDto,
+  BlockedUserResponseDto,
+  MessageReportResponseDto,
+  PaginatedReportsDto,
+  GetScheduledMessagesDto,
+  UpdateScheduledMessageDto,
+  ScheduledMessageResponseDto,
 } from '../dto';
 
 @Injectable()
-export class MessagingService {
+export class MessagingService implements OnModuleInit {
   constructor(
     private readonly conversationService: ConversationService,
     @Inject(forwardRef(() => MessageService))
     private readonly messageService: MessageService,
+    private readonly reactionService: ReactionService,
+    private readonly attachmentService: AttachmentService,
+    private readonly presenceService: PresenceService,
+    private readonly conversationSettingsService: ConversationSettingsService,
+    private readonly transcriptService: TranscriptService,
+    private readonly blockService: BlockService,
+    private readonly reportService: ReportService,
+    private readonly sendRateLimitService: SendRateLimitService,
+    private readonly scheduledMessageService: ScheduledMessageService,
+    private readonly schedulerService: SchedulerService,
+    private readonly dataSource: DataSource,
+    @Inject(forwardRef(() => MessagingGateway))
+    private readonly messagingGateway: MessagingGateway,
   ) {}
 
+  onModuleInit() {
+    this.schedulerService.registerHandler(SCHEDULED_MESSAGE_JOB, (payload) =>
+      this.releaseScheduledMessage(payload.scheduledMessageId as string),
+    );
+  }
+
   /**
-   * Create a new conversation between two participants
+   * Create a new conversation between two or more participants
    */
-  async createConversation(createConversationDto: CreateConversationDto): Promise<ConversationResponseDto> {
-    return await this.conversationService.createConversation(createConversationDto);
+  async createConversation(
+    createConversationDto: CreateConversationDto,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    // Users can only open conversations they take part in
+    if (!createConversationDto.userIds.includes(userId)) {
+      throw new ForbiddenException(
+        'You must be a participant of the conversation you create',
+      );
+    }
+
+    return await this.conversationService.createConversation(
+      createConversationDto,
+      userId,
+    );
   }
 
   /**
    * Send a new message
    */
   async sendMessage(createMessageDto: CreateMessageDto): Promise<MessageResponseDto> {
-    const { conversationId, fromId, toId } = createMessageDto;
+    const { fromId, conversationId, clientMessageId } = createMessageDto;
 
-    // Verify conversation exists and validate participants
-    const conversation = await this.conversationService.getConversationEntity(conversationId);
-    
-    if (!this.conversationService.isParticipantInConversation(fromId, conversation) || 
-        !this.conversationService.isParticipantInConversation(toId, conversation)) {
-      throw new BadRequestException('Invalid participants for this conversation');
+    // A retry of a send that already succeeded costs no allowance and has no side effects
+    if (clientMessageId) {
+      const existingMessage = await this.messageService.findByClientMessageId(
+        fromId,
+        clientMessageId,
+        conversationId,
+      );
+      if (existingMessage) {
+        return existingMessage;
+      }
     }
 
+    // Checked before any other database work so a flooding client stays cheap to turn away
+    await this.sendRateLimitService.consume(fromId, conversationId);
+
+    return await this.storeMessage(createMessageDto);
+  }
+
+  /**
+   * Hold a message and send it at its scheduledFor time
+   */
+  async scheduleMessage(
+    createMessageDto: CreateMessageDto,
+  ): Promise<ScheduledMessageResponseDto> {
+    await this.sendRateLimitService.consume(
+      createMessageDto.fromId,
+      createMessageDto.conversationId,
+    );
+
+    // Participants and blocks are checked again when the message is released
+    await this.resolveRecipients(createMessageDto);
+
+    return await this.scheduledMessageService.scheduleMessage(createMessageDto);
+  }
+
+  /**
+   * Get a user's scheduled messages
+   */
+  async getScheduledMessages(
+    userId: string,
+    query: GetScheduledMessagesDto,
+  ): Promise<ScheduledMessageResponseDto[]> {
+    return await this.scheduledMessageService.getScheduledMessages(
+      userId,
+      query,
+    );
+  }
+
+  /**
+   * Edit a scheduled message before it is sent
+   */
+  async updateScheduledMessage(
+    scheduledMessageId: string,
+    userId: string,
+    updateDto: UpdateScheduledMessageDto,
+  ): Promise<ScheduledMessageResponseDto> {
+    return await this.scheduledMessageService.updateScheduledMessage(
+      scheduledMessageId,
+      userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * Cancel a scheduled message before it is sent
+   */
+  async cancelScheduledMessage(
+    scheduledMessageId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.scheduledMessageService.cancelScheduledMessage(
+      scheduledMessageId,
+      userId,
+    );
+  }
+
+  /**
+   * Send a due scheduled message through the regular send path and push it to the participants
+   */
+  private async releaseScheduledMessage(
+    scheduledMessageId: string,
+  ): Promise<void> {
+    const scheduledMessage =
+      await this.scheduledMessageService.claimForRelease(scheduledMessageId);
+    if (!scheduledMessage) {
+      return;
+    }
+
+    let message: MessageResponseDto;
+    try {
+      message = await this.storeMessage(
+        this.scheduledMessageService.toCreateMessageDto(scheduledMessage),
+      );
+    } catch (error) {
+      // Rejections (left the conversation, blocked, content policy) will not succeed on retry
+      if (error instanceof HttpException) {
+        const failedMessage = await this.scheduledMessageService.markFailed(
+          scheduledMessageId,
+          error.message,
+        );
+        this.messagingGateway.emitToUser(
+          scheduledMessage.fromId,
+          'message:scheduled-failed',
+          failedMessage,
+        );
+        return;
+      }
+
+      await this.scheduledMessageService.unclaim(scheduledMessageId);
+      throw error;
+    }
+
+    await this.scheduledMessageService.markSent(scheduledMessageId, message.id);
+
+    this.messagingGateway.emitToUser(message.fromId, 'message:sent', message);
+    await this.messagingGateway.deliverToRecipients(message);
+  }
+
+  /**
+   * Validate and store a message, without rate limiting
+   */
+  private async storeMessage(
+    createMessageDto: CreateMessageDto,
+  ): Promise<MessageResponseDto> {
+    const recipients = await this.resolveRecipients(createMessageDto);
+
     // Send the message
-    const message = await this.messageService.sendMessage(createMessageDto);
-    
-    // Update conversation timestamp
-    await this.conversationService.updateConversationTimestamp(conversationId);
+    const message = await this.messageService.sendMessage({
+      ...createMessageDto,
+      ...recipients,
+    });
+
+    // Keep the inbox ordered by last activity
+    await this.conversationService.updateConversationTimestamp(
+      createMessageDto.conversationId,
+      message.createdAt,
+    );
+
+    if (message.moderation?.action === 'flagged') {
+      await this.reportService.flagMessage(message);
+    }
 
     return message;
   }
 
+  /**
+   * Check the sender may message the conversation and work out who the message is addressed to and who to email
+   */
+  private async resolveRecipients(
+    createMessageDto: CreateMessageDto,
+  ): Promise<Pick<CreateMessageDto, 'toId' | 'recipients'>> {
+    const { conversationId, fromId, toId } = createMessageDto;
+
+    // Verify conversation exists and validate participants
+    const conversation =
+      await this.conversationService.getConversationEntity(conversationId);
+
+    if (
+      !this.conversationService.isParticipantInConversation(
+        fromId,
+        conversation,
+      ) ||
+      (toId &&
+        !this.conversationService.isParticipantInConversation(
+          toId,
+          conversation,
+        ))
+    ) {
+      throw new BadRequestException(
+        'Invalid participants for this conversation',
+      );
+    }
+
+    // A block placed by either side stops messages in both directions
+    const otherParticipantIds = conversation.userIds.filter(
+      (userId) => userId !== fromId,
+    );
+    if (await this.blockService.isBlockedWithAny(fromId, otherParticipantIds)) {
+      throw new ForbiddenException(
+        'Messaging is blocked between you and a participant of this conversation',
+      );
+    }
+
+    // Group email data is only kept for current participants other than the sender
+    const recipients = createMessageDto.recipients?.filter((recipient) =>
+      otherParticipantIds.includes(recipient.userId),
+    );
+
+    // Direct conversations keep addressing the other participant so per-message read state still applies
+    if (!toId && conversation.userIds.length === 2) {
+      return {
+        toId: conversation.userIds.find((userId) => userId !== fromId),
+        recipients,
+      };
+    }
+    return { toId, recipients };
+  }
+
   /**
    * Get conversations for a user with pagination
    */
@@ -61,60 +322,541 @@ export class MessagingService {
   /**
    * Get conversations with last message and unread count
    */
-  async getConversationsWithLastMessage(userId: string, page = 1, limit = 10): Promise<ConversationWithLastMessageDto[]> {
-    const conversations = await this.conversationService.getConversationsForUser(userId, page, limit);
-    const conversationsWithLastMessage: ConversationWithLastMessageDto[] = [];
-
-    for (const conversation of conversations) {
-      // Get last message
-      const lastMessage = await this.messageService.getLastMessage(conversation.id);
-
-      // Get unread count
-      const unreadCount = await this.messageService.getUnreadMessageCountForConversation(
-        conversation.id, 
-        userId
+  async getConversationsWithLastMessage(
+    userId: string,
+    page = 1,
+    limit = 10,
+    archived = false,
+  ): Promise<ConversationWithLastMessageDto[]> {
+    const conversations =
+      await this.conversationService.getConversationsForUser(
+        userId,
+        page,
+        limit,
+        archived,
+      );
+    const conversationIds = conversations.map(
+      (conversation) => conversation.id,
+    );
+    const summaries = await this.messageService.getInboxSummaries(
+      conversationIds,
+      userId,
+    );
+    const settings =
+      await this.conversationSettingsService.getSettingsForConversations(
+        conversationIds,
+        userId,
       );
 
-      const conversationDto: ConversationWithLastMessageDto = {
+    return conversations.map((conversation) => {
+      const summary = summaries.get(conversation.id);
+
+      return {
         ...this.conversationService.mapConversationToDto(conversation),
-        lastMessage: lastMessage || undefined,
-        unreadCount
+        lastMessage: summary?.lastMessage ?? undefined,
+        unreadCount: summary?.unreadCount ?? 0,
+        settings: settings.get(conversation.id),
       };
+    });
+  }
 
-      conversationsWithLastMessage.push(conversationDto);
-    }
+  /**
+   * Get the caller's mute, archive and pin settings for a conversation
+   */
+  async getConversationSettings(
+    conversationId: string,
+    userId: string,
+  ): Promise<ConversationSettingsResponseDto> {
+    await this.assertParticipant(conversationId, userId);
+    return await this.conversationSettingsService.getSettings(
+      conversationId,
+      userId,
+    );
+  }
 
-    return conversationsWithLastMessage;
+  /**
+   * Change the caller's mute, archive and pin settings for a conversation
+   */
+  async updateConversationSettings(
+    conversationId: string,
+    userId: string,
+    updateDto: UpdateConversationSettingsDto,
+  ): Promise<ConversationSettingsResponseDto> {
+    await this.assertParticipant(conversationId, userId);
+    return await this.conversationSettingsService.updateSettings(
+      conversationId,
+      userId,
+      updateDto,
+    );
   }
 
   /**
    * Get messages in a conversation with pagination
    */
-  async getMessages(query: GetMessagesDto): Promise<PaginatedMessagesDto> {
-    // Verify conversation exists
-    await this.conversationService.getConversationEntity(query.conversationId);
+  async getMessages(
+    query: GetMessagesDto,
+    userId: string,
+  ): Promise<PaginatedMessagesDto | CursorPaginatedMessagesDto> {
+    // Verify conversation exists and the caller may read it
+    await this.assertParticipant(query.conversationId, userId);
     
-    return await this.messageService.getMessages(query);
+    return await this.messageService.getMessages(query, userId);
+  }
+
+  /**
+   * Search the user's messages, optionally within one conversation
+   */
+  async searchMessages(
+    query: SearchMessagesDto,
+    userId: string,
+  ): Promise<PaginatedSearchResultsDto> {
+    if (query.conversationId) {
+      await this.assertParticipant(query.conversationId, userId);
+    }
+
+    return await this.messageService.searchMessages(query, userId);
+  }
+
+  /**
+   * Messages the user has not received on any device yet
+   */
+  async getUndeliveredMessages(
+    userId: string,
+    limit = 100,
+  ): Promise<MessageResponseDto[]> {
+    return await this.messageService.getUndeliveredMessages(userId, limit);
+  }
+
+  /**
+   * Record that messages reached one of the user's devices
+   */
+  async markMessagesDelivered(
+    messageIds: string[],
+    userId: string,
+  ): Promise<MessageDeliveryStatusDto[]> {
+    return await this.messageService.markMessagesDelivered(messageIds, userId);
   }
 
   /**
    * Mark message as read
    */
   async markMessageAsRead(messageId: string, userId: string): Promise<MessageResponseDto> {
+    const message = await this.messageService.getMessageById(messageId);
+
+    // Group-addressed messages can be read by any participant, so check membership here
+    if (!message.toId) {
+      await this.assertParticipant(message.conversationId, userId);
+    }
+
     return await this.messageService.markMessageAsRead(messageId, userId);
   }
 
+  /**
+   * Edit a message and push the new version to the other participants
+   */
+  async editMessage(
+    messageId: string,
+    userId: string,
+    content: string,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageService.editMessage(
+      messageId,
+      userId,
+      content,
+    );
+    if (message.moderation?.action === 'flagged') {
+      await this.reportService.flagMessage(message);
+    }
+
+    const participantIds = await this.getParticipantIds(message.conversationId);
+
+    this.messagingGateway.emitToUsers(
+      participantIds.filter((participantId) => participantId !== userId),
+      'message:edited',
+      message,
+    );
+
+    return message;
+  }
+
+  /**
+   * Get the edit history of a message
+   */
+  async getMessageEditHistory(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageEditResponseDto[]> {
+    const message = await this.messageService.getMessageById(messageId);
+    await this.assertParticipant(message.conversationId, userId);
+
+    return await this.messageService.getEditHistory(messageId);
+  }
+
+  /**
+   * React to a message (replacing any previous reaction by the user) and broadcast the new counts
+   */
+  async reactToMessage(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<MessageReactionEventDto> {
+    const existingMessage = await this.messageService.getMessageById(messageId);
+    await this.assertParticipant(existingMessage.conversationId, userId);
+
+    await this.reactionService.setReaction(messageId, userId, emoji);
+
+    return await this.broadcastReaction(
+      existingMessage.conversationId,
+      messageId,
+      userId,
+      emoji,
+      'added',
+    );
+  }
+
+  /**
+   * Remove the user's reaction from a message and broadcast the new counts
+   */
+  async removeReaction(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageReactionEventDto> {
+    const existingMessage = await this.messageService.getMessageById(messageId);
+    await this.assertParticipant(existingMessage.conversationId, userId);
+
+    await this.reactionService.removeReaction(messageId, userId);
+
+    return await this.broadcastReaction(
+      existingMessage.conversationId,
+      messageId,
+      userId,
+      null,
+      'removed',
+    );
+  }
+
+  private async broadcastReaction(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    emoji: string | null,
+    action: 'added' | 'removed',
+  ): Promise<MessageReactionEventDto> {
+    const summaries = await this.reactionService.getReactionSummaries([
+      messageId,
+    ]);
+    const event: MessageReactionEventDto = {
+      messageId,
+      conversationId,
+      userId,
+      emoji,
+      action,
+      reactions: summaries.get(messageId) ?? [],
+    };
+
+    // Reactions are not messages: no unread state and no email, only a realtime update
+    const participantIds = await this.getParticipantIds(conversationId);
+    this.messagingGateway.emitToUsers(
+      participantIds,
+      'message:reaction',
+      event,
+    );
+
+    return event;
+  }
+
+  /**
+   * Upload a file to a conversation so it can be sent with a message
+   */
+  async uploadAttachment(
+    file: Express.Multer.File,
+    conversationId: string,
+    userId: string,
+  ): Promise<AttachmentResponseDto> {
+    await this.assertParticipant(conversationId, userId);
+
+    return await this.attachmentService.upload(file, conversationId, userId);
+  }
+
+  /**
+   * Open an attachment (or its thumbnail) for a participant of its conversation
+   */
+  async getAttachmentFile(
+    attachmentId: string,
+    userId: string,
+    variant: 'original' | 'thumbnail',
+  ): Promise<{ stream: Readable; mimeType: string; fileName: string }> {
+    const attachment =
+      await this.attachmentService.getAttachmentEntity(attachmentId);
+    await this.assertParticipant(attachment.conversationId, userId);
+
+    // Unsent uploads are only visible to the uploader
+    if (!attachment.messageId && attachment.uploaderId !== userId) {
+      throw new ForbiddenException('Attachment has not been sent yet');
+    }
+
+    const { stream, mimeType } = await this.attachmentService.openFile(
+      attachment,
+      variant,
+    );
+    return { stream, mimeType, fileName: attachment.fileName };
+  }
+
+  /**
+   * Stream the full history of a conversation to a participant or a member of support
+   */
+  async exportConversation(
+    conversationId: string,
+    user: AuthenticatedUser,
+    format: TranscriptFormat,
+  ): Promise<{ stream: Readable; mimeType: string; fileName: string }> {
+    const conversation =
+      await this.conversationService.getConversationEntity(conversationId);
+
+    const isStaff = user.roles.some((role) => SUPPORT_ROLES.includes(role));
+    if (
+      !this.conversationService.isParticipantInConversation(
+        user.userId,
+        conversation,
+      ) &&
+      !isStaff
+    ) {
+      throw new ForbiddenException(
+        'Only participants and support staff can export this conversation',
+      );
+    }
+
+    // Participants get the history they see; staff get every message
+    const hiddenFor = isStaff ? null : user.userId;
+
+    return {
+      stream: Readable.from(
+        this.transcriptService.render(conversation, format, hiddenFor),
+      ),
+      mimeType: this.transcriptService.getContentType(format),
+      fileName: this.transcriptService.getFileName(conversation, format),
+    };
+  }
+
+  /**
+   * Block a user for the caller
+   */
+  async blockUser(
+    userId: string,
+    blockedId: string,
+  ): Promise<BlockedUserResponseDto> {
+    return await this.blockService.blockUser(userId, blockedId);
+  }
+
+  /**
+   * Lift a block the caller placed
+   */
+  async unblockUser(userId: string, blockedId: string): Promise<void> {
+    await this.blockService.unblockUser(userId, blockedId);
+  }
+
+  /**
+   * Get the users the caller has blocked
+   */
+  async getBlockedUsers(userId: string): Promise<BlockedUserResponseDto[]> {
+    return await this.blockService.getBlockedUsers(userId);
+  }
+
+  /**
+   * Report a message the caller can see
+   */
+  async reportMessage(
+    messageId: string,
+    userId: string,
+    reportDto: ReportMessageDto,
+  ): Promise<MessageReportResponseDto> {
+    const message = await this.messageService.getMessageById(messageId);
+    await this.assertParticipant(message.conversationId, userId);
+
+    return await this.reportService.reportMessage(message, userId, reportDto);
+  }
+
+  /**
+   * List message reports for support staff
+   */
+  async getReports(query: GetReportsDto): Promise<PaginatedReportsDto> {
+    return await this.reportService.getReports(
+      query.status,
+      Number(query.page ?? 1),
+      Number(query.limit ?? 20),
+    );
+  }
+
+  /**
+   * Resolve or dismiss a message report
+   */
+  async updateReport(
+    reportId: string,
+    staffId: string,
+    updateDto: UpdateReportDto,
+  ): Promise<MessageReportResponseDto> {
+    return await this.reportService.updateReportStatus(
+      reportId,
+      staffId,
+      updateDto.status,
+    );
+  }
+
+  /**
+   * Get everyone the user shares a conversation with (the audience for their presence updates)
+   */
+  async getContactIds(userId: string): Promise<string[]> {
+    return await this.conversationService.getContactIds(userId);
+  }
+
+  /**
+   * Record a joined socket of the user; true when they just came online
+   */
+  async recordConnect(userId: string, socketId: string): Promise<boolean> {
+    return await this.presenceService.recordConnect(userId, socketId);
+  }
+
+  /**
+   * Forget a closed socket of the user; returns their last-seen time when they just went offline,
+   * or null while another socket keeps them online
+   */
+  async recordDisconnect(
+    userId: string,
+    socketId: string,
+  ): Promise<Date | null> {
+    const lastSeenAt = new Date();
+    const wentOffline = await this.presenceService.recordDisconnect(
+      userId,
+      socketId,
+      lastSeenAt,
+    );
+    return wentOffline ? lastSeenAt : null;
+  }
+
+  /**
+   * Keep the joined sockets of this instance counted as online
+   */
+  async refreshConnections(socketIds: string[]): Promise<void> {
+    await this.presenceService.refreshConnections(socketIds);
+  }
+
+  /**
+   * Get which of the users are online on any instance
+   */
+  async getOnlineUserIds(userIds: string[]): Promise<string[]> {
+    return await this.presenceService.getOnlineUserIds(userIds);
+  }
+
+  /**
+   * Get online state and last-seen time of a user the requester shares a conversation with
+   */
+  async getPresence(
+    userId: string,
+    requesterId: string,
+  ): Promise<PresenceResponseDto> {
+    if (
+      userId !== requesterId &&
+      !(await this.conversationService.sharesConversation(userId, requesterId))
+    ) {
+      throw new ForbiddenException(
+        'You can only see the presence of your contacts',
+      );
+    }
+
+    return {
+      userId,
+      online:
+        (await this.presenceService.getOnlineUserIds([userId])).length > 0,
+      lastSeenAt: await this.presenceService.getLastSeen(userId),
+    };
+  }
+
+  /**
+   * Get the participant ids of a conversation
+   */
+  async getParticipantIds(conversationId: string): Promise<string[]> {
+    const conversation =
+      await this.conversationService.getConversationEntity(conversationId);
+    return conversation.userIds;
+  }
+
+  /**
+   * Add participants to a conversation and notify everyone involved
+   */
+  async addParticipants(
+    conversationId: string,
+    addParticipantsDto: AddParticipantsDto,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.conversationService.addParticipants(
+      conversationId,
+      addParticipantsDto.userIds,
+      userId,
+    );
+    const conversationDto =
+      this.conversationService.mapConversationToDto(conversation);
+
+    this.messagingGateway.notifyParticipantsUpdated(
+      conversationDto,
+      conversationDto.userIds,
+    );
+
+    return conversationDto;
+  }
+
+  /**
+   * Remove a participant from a conversation and notify everyone involved, including the removed user
+   */
+  async removeParticipant(
+    conversationId: string,
+    participantId: string,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.conversationService.removeParticipant(
+      conversationId,
+      participantId,
+      userId,
+    );
+    const conversationDto =
+      this.conversationService.mapConversationToDto(conversation);
+
+    await this.conversationSettingsService.deleteForParticipant(
+      conversationId,
+      participantId,
+    );
+    this.messagingGateway.notifyParticipantsUpdated(conversationDto, [
+      ...conversationDto.userIds,
+      participantId,
+    ]);
+
+    return conversationDto;
+  }
+
   /**
    * Find conversation by ID
    */
-  async findConversationById(id: string): Promise<ConversationResponseDto> {
-    return await this.conversationService.findConversationById(id);
+  async findConversationById(
+    id: string,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.assertParticipant(id, userId);
+    return this.conversationService.mapConversationToDto(conversation);
   }
 
   /**
    * Find conversation between two participants
    */
-  async findConversationByParticipants(participantOne: string, participantTwo: string): Promise<ConversationResponseDto | null> {
+  async findConversationByParticipants(
+    participantOne: string,
+    participantTwo: string,
+    userId: string,
+  ): Promise<ConversationResponseDto | null> {
+    if (userId !== participantOne && userId !== participantTwo) {
+      throw new ForbiddenException(
+        'You can only look up your own conversations',
+      );
+    }
+
     const conversation = await this.conversationService.findConversationByParticipants(participantOne, participantTwo);
     return conversation ? this.conversationService.mapConversationToDto(conversation) : null;
   }
@@ -144,31 +886,132 @@ export class MessagingService {
    * Delete a conversation and all its messages
    */
   async deleteConversation(conversationId: string, userId: string): Promise<void> {
-    // Delete all messages first (due to foreign key constraint)
-    await this.messageService.deleteMessagesByConversation(conversationId);
-    
-    // Delete conversation
-    await this.conversationService.deleteConversation(conversationId, userId);
+    await this.assertParticipant(conversationId, userId);
+
+    const storageKeys = await this.dataSource.transaction(async (manager) => {
+      // Delete all messages first (due to foreign key constraint)
+      const keys = await this.messageService.deleteMessagesByConversation(
+        conversationId,
+        manager,
+      );
+
+      await this.conversationService.deleteConversation(
+        conversationId,
+        manager,
+      );
+      await this.conversationSettingsService.deleteForConversation(
+        conversationId,
+        manager,
+      );
+      return keys;
+    });
+
+    // Files cannot be rolled back, so they go only once the rows are gone
+    await this.attachmentService.deleteStoredFiles(storageKeys);
   }
 
   /**
    * Get messages between two users across all conversations
    */
-  async getMessagesBetweenUsers(userOne: string, userTwo: string, page = 1, limit = 50): Promise<PaginatedMessagesDto> {
-    return await this.messageService.getMessagesBetweenUsers(userOne, userTwo, page, limit);
+  async getMessagesBetweenUsers(
+    userOne: string,
+    userTwo: string,
+    userId: string,
+    page = 1,
+    limit = 50,
+  ): Promise<PaginatedMessagesDto> {
+    // Only one of the two users may read their shared history
+    if (userId !== userOne && userId !== userTwo) {
+      throw new ForbiddenException(
+        'You can only read messages you are part of',
+      );
+    }
+
+    return await this.messageService.getMessagesBetweenUsers(
+      userOne,
+      userTwo,
+      userId,
+      page,
+      limit,
+    );
   }
 
   /**
-   * Delete a specific message
+   * Delete a message for the user only ("me") or unsend it for every participant ("everyone")
    */
-  async deleteMessage(messageId: string, userId: string): Promise<void> {
-    return await this.messageService.deleteMessage(messageId, userId);
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: 'me' | 'everyone' = 'everyone',
+  ): Promise<void> {
+    const existingMessage = await this.messageService.getMessageById(messageId);
+    const conversation = await this.assertParticipant(
+      existingMessage.conversationId,
+      userId,
+    );
+
+    if (scope === 'me') {
+      await this.messageService.hideMessageForUser(messageId, userId);
+
+      // Only the user's own open clients need to drop the message
+      const event: MessageDeletedEventDto = {
+        messageId,
+        conversationId: existingMessage.conversationId,
+        scope,
+      };
+      this.messagingGateway.emitToUser(userId, 'message:deleted', event);
+      return;
+    }
+
+    const message = await this.messageService.unsendMessage(messageId, userId);
+
+    const event: MessageDeletedEventDto = {
+      messageId,
+      conversationId: message.conversationId,
+      scope,
+      message,
+    };
+    this.messagingGateway.emitToUsers(
+      conversation.userIds,
+      'message:deleted',
+      event,
+    );
   }
 
   /**
    * Get message by ID
    */
-  async getMessageById(messageId: string): Promise<MessageResponseDto> {
-    return await this.messageService.getMessageById(messageId);
+  async getMessageById(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageService.getMessageById(messageId);
+    await this.assertParticipant(message.conversationId, userId);
+
+    return message;
+  }
+
+  /**
+   * Load a conversation and ensure the user takes part in it
+   */
+  async assertParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<Conversation> {
+    const conversation =
+      await this.conversationService.getConversationEntity(conversationId);
+
+    if (
+      !this.conversationService.isParticipantInConversation(
+        userId,
+        conversation,
+      )
+    ) {
+      throw new ForbiddenException(
+        'You are not a participant in this conversation',
+      );
+    }
+
+    return conversation;
   }
 }
@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, LessThan, MoreThan, Repository } from 'typeorm';
+import { UserPresence } from '../entities/user-presence.entity';
+import { UserConnection } from '../entities/user-connection.entity';
+
+// Each instance refreshes its sockets this often; rows of a crashed instance go stale after a few misses
+export const CONNECTION_REFRESH_INTERVAL_MS = 30000;
+const STALE_CONNECTION_MS = 3 * CONNECTION_REFRESH_INTERVAL_MS;
+
+@Injectable()
+export class PresenceService {
+  constructor(
+    @InjectRepository(UserPresence)
+    private presenceRepository: Repository<UserPresence>,
+    @InjectRepository(UserConnection)
+    private connectionRepository: Repository<UserConnection>,
+  ) {}
+
+  /**
+   * Record a newly joined socket of the user; returns true when it is their only live one,
+   * i.e. they just came online
+   */
+  async recordConnect(
+    userId: string,
+    socketId: string,
+    seenAt = new Date(),
+  ): Promise<boolean> {
+    return await this.presenceRepository.manager.transaction(
+      async (manager) => {
+        await this.lockPresence(userId, seenAt, manager);
+        await manager.upsert(
+          UserConnection,
+          { socketId, userId, lastActiveAt: seenAt },
+          ['socketId'],
+        );
+
+        return (await this.countLiveConnections(userId, manager)) === 1;
+      },
+    );
+  }
+
+  /**
+   * Forget a closed socket of the user and record them as seen now; returns true when no live
+   * socket is left, i.e. they just went offline
+   */
+  async recordDisconnect(
+    userId: string,
+    socketId: string,
+    seenAt = new Date(),
+  ): Promise<boolean> {
+    return await this.presenceRepository.manager.transaction(
+      async (manager) => {
+        await this.lockPresence(userId, seenAt, manager);
+        await manager.delete(UserConnection, { socketId });
+
+        return (await this.countLiveConnections(userId, manager)) === 0;
+      },
+    );
+  }
+
+  /**
+   * Keep this instance's sockets live and sweep the ones nobody refreshed
+   */
+  async refreshConnections(socketIds: string[]): Promise<void> {
+    if (socketIds.length > 0) {
+      await this.connectionRepository.update(
+        { socketId: In(socketIds) },
+        { lastActiveAt: new Date() },
+      );
+    }
+
+    await this.connectionRepository.delete({
+      lastActiveAt: LessThan(this.getStaleBefore()),
+    });
+  }
+
+  /**
+   * Get which of the users have at least one live socket
+   */
+  async getOnlineUserIds(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const connections = await this.connectionRepository.find({
+      where: {
+        userId: In(userIds),
+        lastActiveAt: MoreThan(this.getStaleBefore()),
+      },
+    });
+    return [...new Set(connections.map((connection) => connection.userId))];
+  }
+
+  /**
+   * Get when the user was last seen, if ever
+   */
+  async getLastSeen(userId: string): Promise<Date | null> {
+    const presence = await this.presenceRepository.findOne({
+      where: { userId },
+    });
+
+    return presence?.lastSeenAt ?? null;
+  }
+
+  // The presence row is the per-user lock, so concurrent joins and leaves on any instance
+  // each see the others' connection changes
+  private async lockPresence(
+    userId: string,
+    seenAt: Date,
+    manager: EntityManager,
+  ): Promise<void> {
+    await manager.query(
+      `INSERT INTO "UserPresence" ("userId", "lastSeenAt") VALUES ($1, $2)
+       ON CONFLICT ("userId") DO UPDATE SET "lastSeenAt" = EXCLUDED."lastSeenAt"`,
+      [userId, seenAt],
+    );
+  }
+
+  private async countLiveConnections(
+    userId: string,
+    manager: EntityManager,
+  ): Promise<number> {
+    return await manager.count(UserConnection, {
+      where: { userId, lastActiveAt: MoreThan(this.getStaleBefore()) },
+    });
+  }
+
+  private getStaleBefore(): Date {
+    return new Date(Date.now() - STALE_CONNECTION_MS);
+  }
+}
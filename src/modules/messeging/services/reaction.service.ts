@@ -0,0 +1,130 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Message } from '../entities/message.entity';
+import { MessageReaction } from '../entities/message-reaction.entity';
+import { MessageReactionSummaryDto } from '../dto';
+
+@Injectable()
+export class ReactionService {
+  constructor(
+    @InjectRepository(MessageReaction)
+    private reactionRepository: Repository<MessageReaction>,
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+  ) {}
+
+  /**
+   * Add (or replace) the user's reaction on a message
+   */
+  async setReaction(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<Message> {
+    const message = await this.getReactableMessage(messageId);
+
+    await this.reactionRepository
+      .createQueryBuilder()
+      .insert()
+      .into(MessageReaction)
+      .values({ messageId, userId, emoji })
+      .orUpdate(['emoji'], ['messageId', 'userId'])
+      .execute();
+
+    return message;
+  }
+
+  /**
+   * Remove the user's reaction from a message
+   */
+  async removeReaction(messageId: string, userId: string): Promise<Message> {
+    const message = await this.getReactableMessage(messageId);
+
+    await this.reactionRepository.delete({ messageId, userId });
+
+    return message;
+  }
+
+  /**
+   * Get aggregated reactions for a set of messages, keyed by message id
+   */
+  async getReactionSummaries(
+    messageIds: string[],
+  ): Promise<Map<string, MessageReactionSummaryDto[]>> {
+    const summaries = new Map<string, MessageReactionSummaryDto[]>();
+    if (messageIds.length === 0) {
+      return summaries;
+    }
+
+    const rows: {
+      messageId: string;
+      emoji: string;
+      count: number;
+      userIds: string[];
+    }[] = await this.reactionRepository
+      .createQueryBuilder('reaction')
+      .select('reaction.messageId', 'messageId')
+      .addSelect('reaction.emoji', 'emoji')
+      .addSelect('COUNT(*)::int', 'count')
+      .addSelect(
+        'array_agg(reaction.userId ORDER BY reaction.createdAt)',
+        'userIds',
+      )
+      .where('reaction.messageId IN (:...messageIds)', { messageIds })
+      .groupBy('reaction.messageId')
+      .addGroupBy('reaction.emoji')
+      .orderBy('COUNT(*)', 'DESC')
+      .getRawMany();
+
+    for (const row of rows) {
+      const messageSummaries = summaries.get(row.messageId) ?? [];
+      messageSummaries.push({
+        emoji: row.emoji,
+        count: row.count,
+        userIds: row.userIds,
+      });
+      summaries.set(row.messageId, messageSummaries);
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Delete all reactions on messages of a conversation
+   */
+  async deleteReactionsForConversation(
+    conversationId: string,
+    manager: EntityManager = this.reactionRepository.manager,
+  ): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .delete()
+      .from(MessageReaction)
+      .where(
+        '"messageId" IN (SELECT id FROM "Message" WHERE "conversationId" = :conversationId)',
+        { conversationId },
+      )
+      .execute();
+  }
+
+  private async getReactableMessage(messageId: string): Promise<Message> {
+    const message = await this.messageRepository.findOne({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Deleted messages cannot be reacted to');
+    }
+
+    return message;
+  }
+}
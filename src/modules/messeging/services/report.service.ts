@@ -0,0 +1,166 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import {
+  MessageReport,
+  MessageReportStatus,
+  SYSTEM_REPORTER_ID,
+} from '../entities/message-report.entity';
+import { MessageService } from './message.service';
+import {
+  ReportMessageDto,
+  MessageResponseDto,
+  MessageReportResponseDto,
+  PaginatedReportsDto,
+} from '../dto';
+
+// Messages shown on each side of a reported message
+const REPORT_CONTEXT_RADIUS = 5;
+
+@Injectable()
+export class ReportService {
+  constructor(
+    @InjectRepository(MessageReport)
+    private reportRepository: Repository<MessageReport>,
+    private messageService: MessageService,
+  ) {}
+
+  /**
+   * Report a message; reporting the same message again returns the first report
+   */
+  async reportMessage(
+    message: MessageResponseDto,
+    reporterId: string,
+    reportDto: ReportMessageDto,
+  ): Promise<MessageReportResponseDto> {
+    if (message.fromId === reporterId) {
+      throw new BadRequestException('You cannot report your own message');
+    }
+
+    await this.reportRepository
+      .createQueryBuilder()
+      .insert()
+      .into(MessageReport)
+      .values({
+        id: randomUUID(),
+        messageId: message.id,
+        conversationId: message.conversationId,
+        reporterId,
+        reason: reportDto.reason,
+        details: reportDto.details ?? null,
+        status: 'open',
+      })
+      .orIgnore()
+      .execute();
+
+    const report = await this.reportRepository.findOneOrFail({
+      where: { messageId: message.id, reporterId },
+    });
+    return this.mapReportToDto(report);
+  }
+
+  /**
+   * Queue a message flagged by content inspection for staff review
+   */
+  async flagMessage(message: MessageResponseDto): Promise<void> {
+    const detected = message.moderation?.detected ?? [];
+
+    // Edits of an already flagged message keep its single system report
+    await this.reportRepository
+      .createQueryBuilder()
+      .insert()
+      .into(MessageReport)
+      .values({
+        id: randomUUID(),
+        messageId: message.id,
+        conversationId: message.conversationId,
+        reporterId: SYSTEM_REPORTER_ID,
+        reason: 'off_platform',
+        details: `Detected: ${detected.join(', ')}`,
+        status: 'open',
+      })
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * List reports with the reported message and the conversation around it, oldest first
+   */
+  async getReports(
+    status: MessageReportStatus = 'open',
+    page = 1,
+    limit = 20,
+  ): Promise<PaginatedReportsDto> {
+    const [reports, total] = await this.reportRepository.findAndCount({
+      where: { status },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const messages = await this.messageService.getMessagesByIds(
+      reports.map((report) => report.messageId),
+    );
+    const data = await Promise.all(
+      reports.map(async (report) => ({
+        ...this.mapReportToDto(report),
+        message: messages.get(report.messageId) ?? null,
+        context: await this.messageService.getMessageContext(
+          report.messageId,
+          REPORT_CONTEXT_RADIUS,
+        ),
+      })),
+    );
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Close a report as resolved or dismissed
+   */
+  async updateReportStatus(
+    reportId: string,
+    staffId: string,
+    status: 'resolved' | 'dismissed',
+  ): Promise<MessageReportResponseDto> {
+    const report = await this.reportRepository.findOne({
+      where: { id: reportId },
+    });
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+
+    report.status = status;
+    report.resolvedBy = staffId;
+    report.resolvedAt = new Date();
+
+    const savedReport = await this.reportRepository.save(report);
+    return this.mapReportToDto(savedReport);
+  }
+
+  private mapReportToDto(report: MessageReport): MessageReportResponseDto {
+    return {
+      id: report.id,
+      messageId: report.messageId,
+      conversationId: report.conversationId,
+      reporterId: report.reporterId,
+      reason: report.reason,
+      details: report.details,
+      status: report.status,
+      createdAt: report.createdAt,
+      resolvedBy: report.resolvedBy,
+      resolvedAt: report.resolvedAt,
+    };
+  }
+}
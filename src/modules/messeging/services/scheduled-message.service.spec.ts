@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import {
+  ScheduledMessageService,
+  SCHEDULED_MESSAGE_JOB,
+} from './scheduled-message.service';
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+import { SchedulerService } from '../../scheduler/scheduler.service';
+import { AttachmentService } from './attachment.service';
+import { ContentInspectionService } from './content-inspection.service';
+
+describe('ScheduledMessageService', () => {
+  let service: ScheduledMessageService;
+  let repository: {
+    count: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    findOneBy: jest.Mock;
+    findOneByOrFail: jest.Mock;
+  };
+  let schedulerService: { schedule: jest.Mock; cancel: jest.Mock };
+
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  const pendingMessage = (
+    overrides: Partial<ScheduledMessage> = {},
+  ): ScheduledMessage =>
+    ({
+      id: 'scheduled-1',
+      fromId: 'user-1',
+      toId: null,
+      conversationId: 'conversation-1',
+      content: 'Reminder: appointment tomorrow',
+      replyToId: null,
+      attachmentIds: [],
+      clientMessageId: null,
+      senderName: null,
+      senderEmail: null,
+      recipientName: null,
+      recipientEmail: null,
+      recipients: null,
+      scheduledFor: inOneHour(),
+      status: 'pending',
+      messageId: null,
+      failureReason: null,
+      ...overrides,
+    }) as ScheduledMessage;
+
+  beforeEach(async () => {
+    repository = {
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn((value: ScheduledMessage) => value),
+      save: jest.fn((value: ScheduledMessage) => Promise.resolve(value)),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      findOneBy: jest.fn(),
+      findOneByOrFail: jest.fn(),
+    };
+    schedulerService = {
+      schedule: jest.fn().mockResolvedValue({}),
+      cancel: jest.fn().mockResolvedValue(1),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessageService,
+        { provide: getRepositoryToken(ScheduledMessage), useValue: repository },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: SchedulerService, useValue: schedulerService },
+        {
+          provide: AttachmentService,
+          useValue: { assertAttachable: jest.fn() },
+        },
+        { provide: ContentInspectionService, useValue: { inspect: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ScheduledMessageService>(ScheduledMessageService);
+  });
+
+  it('should store the message as pending and schedule its release', async () => {
+    const scheduledFor = inOneHour();
+
+    const result = await service.scheduleMessage({
+      content: 'Reminder: appointment tomorrow',
+      fromId: 'user-1',
+      conversationId: 'conversation-1',
+      scheduledFor: scheduledFor.toISOString(),
+    });
+
+    expect(result).toMatchObject({ status: 'pending', scheduledFor });
+    expect(schedulerService.schedule).toHaveBeenCalledWith(
+      SCHEDULED_MESSAGE_JOB,
+      { scheduledMessageId: result.id },
+      scheduledFor,
+      result.id,
+    );
+  });
+
+  it('should reject send times in the past or too far ahead', async () => {
+    const schedule = (scheduledFor: Date) =>
+      service.scheduleMessage({
+        content: 'Hello',
+        fromId: 'user-1',
+        conversationId: 'conversation-1',
+        scheduledFor: scheduledFor.toISOString(),
+      });
+
+    await expect(schedule(new Date(Date.now() - 1000))).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(
+      schedule(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000)),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should move the release job when the send time changes', async () => {
+    const scheduledFor = inOneHour();
+    repository.findOneBy.mockResolvedValue(pendingMessage());
+    repository.findOneByOrFail.mockResolvedValue(
+      pendingMessage({ scheduledFor }),
+    );
+
+    await service.updateScheduledMessage('scheduled-1', 'user-1', {
+      scheduledFor: scheduledFor.toISOString(),
+    });
+
+    expect(schedulerService.cancel).toHaveBeenCalledWith(
+      SCHEDULED_MESSAGE_JOB,
+      'scheduled-1',
+    );
+    expect(schedulerService.schedule).toHaveBeenCalledWith(
+      SCHEDULED_MESSAGE_JOB,
+      { scheduledMessageId: 'scheduled-1' },
+      scheduledFor,
+      'scheduled-1',
+    );
+  });
+
+  it('should refuse to cancel a message that was already released', async () => {
+    repository.findOneBy.mockResolvedValue(pendingMessage());
+    repository.update.mockResolvedValue({ affected: 0 });
+
+    await expect(
+      service.cancelScheduledMessage('scheduled-1', 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(schedulerService.cancel).not.toHaveBeenCalled();
+  });
+
+  it('should not release a message that is no longer pending or not yet due', async () => {
+    repository.update.mockResolvedValue({ affected: 0 });
+
+    await expect(service.claimForRelease('scheduled-1')).resolves.toBeNull();
+    expect(repository.findOneBy).not.toHaveBeenCalled();
+  });
+
+  it('should release with a client id that makes retries idempotent', () => {
+    expect(service.toCreateMessageDto(pendingMessage())).toMatchObject({
+      clientMessageId: 'scheduled-scheduled-1',
+      conversationId: 'conversation-1',
+    });
+  });
+});
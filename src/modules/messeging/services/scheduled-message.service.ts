@@ -0,0 +1,355 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+import { SchedulerService } from '../../scheduler/scheduler.service';
+import { AttachmentService } from './attachment.service';
+import { ContentInspectionService } from './content-inspection.service';
+import {
+  CreateMessageDto,
+  GetScheduledMessagesDto,
+  UpdateScheduledMessageDto,
+  ScheduledMessageResponseDto,
+} from '../dto';
+
+const DEFAULT_MAX_SCHEDULE_DAYS = 30;
+const DEFAULT_MAX_PENDING_PER_USER = 100;
+export const SCHEDULED_MESSAGE_JOB = 'message.scheduled-send';
+
+@Injectable()
+export class ScheduledMessageService {
+  constructor(
+    @InjectRepository(ScheduledMessage)
+    private scheduledMessageRepository: Repository<ScheduledMessage>,
+    private configService: ConfigService,
+    private schedulerService: SchedulerService,
+    private attachmentService: AttachmentService,
+    private contentInspectionService: ContentInspectionService,
+  ) {}
+
+  /**
+   * Store a message to be sent later and schedule its release
+   */
+  async scheduleMessage(
+    createMessageDto: CreateMessageDto,
+  ): Promise<ScheduledMessageResponseDto> {
+    const { fromId, conversationId, attachmentIds = [] } = createMessageDto;
+    const scheduledFor = this.parseScheduledFor(createMessageDto.scheduledFor);
+
+    const maxPending = Number(
+      this.configService.get('SCHEDULED_MESSAGE_MAX_PENDING') ??
+        DEFAULT_MAX_PENDING_PER_USER,
+    );
+    const pendingCount = await this.scheduledMessageRepository.count({
+      where: { fromId, status: 'pending' },
+    });
+    if (pendingCount >= maxPending) {
+      throw new BadRequestException(
+        `You can have at most ${maxPending} scheduled messages`,
+      );
+    }
+
+    // Fail now rather than at release for content the policy blocks outright
+    this.contentInspectionService.inspect(createMessageDto.content ?? '');
+    await this.attachmentService.assertAttachable(
+      attachmentIds,
+      conversationId,
+      fromId,
+    );
+
+    const scheduledMessage = await this.scheduledMessageRepository.save(
+      this.scheduledMessageRepository.create({
+        id: randomUUID(),
+        fromId,
+        toId: createMessageDto.toId ?? null,
+        conversationId,
+        content: createMessageDto.content ?? '',
+        replyToId: createMessageDto.replyToId ?? null,
+        attachmentIds,
+        clientMessageId: createMessageDto.clientMessageId ?? null,
+        senderName: createMessageDto.senderName ?? null,
+        senderEmail: createMessageDto.senderEmail ?? null,
+        recipientName: createMessageDto.recipientName ?? null,
+        recipientEmail: createMessageDto.recipientEmail ?? null,
+        recipients: createMessageDto.recipients ?? null,
+        scheduledFor,
+        status: 'pending',
+        messageId: null,
+        failureReason: null,
+      }),
+    );
+
+    await this.scheduleRelease(scheduledMessage);
+    return this.mapScheduledMessageToDto(scheduledMessage);
+  }
+
+  /**
+   * List a user's scheduled messages, soonest first
+   */
+  async getScheduledMessages(
+    userId: string,
+    query: GetScheduledMessagesDto,
+  ): Promise<ScheduledMessageResponseDto[]> {
+    const scheduledMessages = await this.scheduledMessageRepository.find({
+      where: {
+        fromId: userId,
+        status: query.status ?? 'pending',
+        ...(query.conversationId
+          ? { conversationId: query.conversationId }
+          : {}),
+      },
+      order: { scheduledFor: 'ASC', id: 'ASC' },
+    });
+
+    return scheduledMessages.map((scheduledMessage) =>
+      this.mapScheduledMessageToDto(scheduledMessage),
+    );
+  }
+
+  /**
+   * Change the content or send time of a message that has not been sent yet
+   */
+  async updateScheduledMessage(
+    scheduledMessageId: string,
+    userId: string,
+    updateDto: UpdateScheduledMessageDto,
+  ): Promise<ScheduledMessageResponseDto> {
+    const scheduledMessage = await this.getPendingOwnedMessage(
+      scheduledMessageId,
+      userId,
+    );
+
+    const changes: Partial<ScheduledMessage> = {};
+    if (updateDto.content !== undefined) {
+      if (!updateDto.content && scheduledMessage.attachmentIds.length === 0) {
+        throw new BadRequestException('content should not be empty');
+      }
+      this.contentInspectionService.inspect(updateDto.content);
+      changes.content = updateDto.content;
+    }
+    if (updateDto.scheduledFor !== undefined) {
+      changes.scheduledFor = this.parseScheduledFor(updateDto.scheduledFor);
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return this.mapScheduledMessageToDto(scheduledMessage);
+    }
+
+    // The release may have claimed the message since it was read
+    const result = await this.scheduledMessageRepository.update(
+      { id: scheduledMessage.id, status: 'pending' },
+      changes,
+    );
+    if (!result.affected) {
+      throw new BadRequestException(
+        'Scheduled message has already been sent or cancelled',
+      );
+    }
+
+    if (changes.scheduledFor) {
+      await this.schedulerService.cancel(
+        SCHEDULED_MESSAGE_JOB,
+        scheduledMessage.id,
+      );
+      await this.scheduleRelease({ ...scheduledMessage, ...changes });
+    }
+
+    return this.mapScheduledMessageToDto(
+      await this.scheduledMessageRepository.findOneByOrFail({
+        id: scheduledMessage.id,
+      }),
+    );
+  }
+
+  /**
+   * Cancel a message that has not been sent yet
+   */
+  async cancelScheduledMessage(
+    scheduledMessageId: string,
+    userId: string,
+  ): Promise<void> {
+    const scheduledMessage = await this.getPendingOwnedMessage(
+      scheduledMessageId,
+      userId,
+    );
+
+    const result = await this.scheduledMessageRepository.update(
+      { id: scheduledMessage.id, status: 'pending' },
+      { status: 'cancelled' },
+    );
+    if (!result.affected) {
+      throw new BadRequestException(
+        'Scheduled message has already been sent or cancelled',
+      );
+    }
+
+    await this.schedulerService.cancel(
+      SCHEDULED_MESSAGE_JOB,
+      scheduledMessage.id,
+    );
+  }
+
+  /**
+   * Claim a due message for sending; null when it was cancelled, edited to a later time or already claimed
+   */
+  async claimForRelease(
+    scheduledMessageId: string,
+  ): Promise<ScheduledMessage | null> {
+    const result = await this.scheduledMessageRepository.update(
+      {
+        id: scheduledMessageId,
+        status: 'pending',
+        scheduledFor: LessThanOrEqual(new Date()),
+      },
+      { status: 'sending' },
+    );
+    if (!result.affected) {
+      return null;
+    }
+
+    return await this.scheduledMessageRepository.findOneBy({
+      id: scheduledMessageId,
+    });
+  }
+
+  /**
+   * Record the message a scheduled message was sent as
+   */
+  async markSent(scheduledMessageId: string, messageId: string): Promise<void> {
+    await this.scheduledMessageRepository.update(
+      { id: scheduledMessageId },
+      { status: 'sent', messageId },
+    );
+  }
+
+  /**
+   * Record why a scheduled message could not be sent; it is not retried
+   */
+  async markFailed(
+    scheduledMessageId: string,
+    failureReason: string,
+  ): Promise<ScheduledMessageResponseDto> {
+    await this.scheduledMessageRepository.update(
+      { id: scheduledMessageId },
+      { status: 'failed', failureReason },
+    );
+
+    return this.mapScheduledMessageToDto(
+      await this.scheduledMessageRepository.findOneByOrFail({
+        id: scheduledMessageId,
+      }),
+    );
+  }
+
+  /**
+   * Return a claimed message to pending so the retried job can claim it again
+   */
+  async unclaim(scheduledMessageId: string): Promise<void> {
+    await this.scheduledMessageRepository.update(
+      { id: scheduledMessageId, status: 'sending' },
+      { status: 'pending' },
+    );
+  }
+
+  /**
+   * Build the send request a scheduled message is released with
+   */
+  toCreateMessageDto(scheduledMessage: ScheduledMessage): CreateMessageDto {
+    return {
+      content: scheduledMessage.content,
+      fromId: scheduledMessage.fromId,
+      toId: scheduledMessage.toId ?? undefined,
+      conversationId: scheduledMessage.conversationId,
+      replyToId: scheduledMessage.replyToId ?? undefined,
+      // Makes a release retried after a crash return the stored message instead of a duplicate
+      clientMessageId:
+        scheduledMessage.clientMessageId ?? `scheduled-${scheduledMessage.id}`,
+      attachmentIds: scheduledMessage.attachmentIds,
+      senderName: scheduledMessage.senderName ?? undefined,
+      senderEmail: scheduledMessage.senderEmail ?? undefined,
+      recipientName: scheduledMessage.recipientName ?? undefined,
+      recipientEmail: scheduledMessage.recipientEmail ?? undefined,
+      recipients: scheduledMessage.recipients ?? undefined,
+    };
+  }
+
+  private async getPendingOwnedMessage(
+    scheduledMessageId: string,
+    userId: string,
+  ): Promise<ScheduledMessage> {
+    const scheduledMessage = await this.scheduledMessageRepository.findOneBy({
+      id: scheduledMessageId,
+    });
+    if (!scheduledMessage || scheduledMessage.fromId !== userId) {
+      throw new NotFoundException('Scheduled message not found');
+    }
+
+    if (scheduledMessage.status !== 'pending') {
+      throw new BadRequestException(
+        'Scheduled message has already been sent or cancelled',
+      );
+    }
+
+    return scheduledMessage;
+  }
+
+  private async scheduleRelease(
+    scheduledMessage: ScheduledMessage,
+  ): Promise<void> {
+    await this.schedulerService.schedule(
+      SCHEDULED_MESSAGE_JOB,
+      { scheduledMessageId: scheduledMessage.id },
+      scheduledMessage.scheduledFor,
+      scheduledMessage.id,
+    );
+  }
+
+  private parseScheduledFor(value?: string): Date {
+    const scheduledFor = value ? new Date(value) : null;
+    if (!scheduledFor || isNaN(scheduledFor.getTime())) {
+      throw new BadRequestException('scheduledFor must be a valid date');
+    }
+
+    if (scheduledFor.getTime() <= Date.now()) {
+      throw new BadRequestException('scheduledFor must be in the future');
+    }
+
+    const maxDays = Number(
+      this.configService.get('SCHEDULED_MESSAGE_MAX_DAYS') ??
+        DEFAULT_MAX_SCHEDULE_DAYS,
+    );
+    if (scheduledFor.getTime() > Date.now() + maxDays * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(
+        `Messages can be scheduled at most ${maxDays} days ahead`,
+      );
+    }
+
+    return scheduledFor;
+  }
+
+  private mapScheduledMessageToDto(
+    scheduledMessage: ScheduledMessage,
+  ): ScheduledMessageResponseDto {
+    return {
+      id: scheduledMessage.id,
+      conversationId: scheduledMessage.conversationId,
+      fromId: scheduledMessage.fromId,
+      toId: scheduledMessage.toId,
+      content: scheduledMessage.content,
+      replyToId: scheduledMessage.replyToId,
+      attachmentIds: scheduledMessage.attachmentIds,
+      scheduledFor: scheduledMessage.scheduledFor,
+      status: scheduledMessage.status,
+      messageId: scheduledMessage.messageId,
+      failureReason: scheduledMessage.failureReason,
+      createdAt: scheduledMessage.createdAt,
+      updatedAt: scheduledMessage.updatedAt,
+    };
+  }
+}
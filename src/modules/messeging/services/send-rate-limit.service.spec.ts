@@ -0,0 +1,130 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { SendRateLimitBucket } from '../entities/send-rate-limit-bucket.entity';
+import {
+  SendRateLimitService,
+  MessageRateLimitException,
+} from './send-rate-limit.service';
+
+describe('SendRateLimitService', () => {
+  const config: Record<string, string> = {
+    MESSAGE_RATE_LIMIT_SENDER_CAPACITY: '5',
+    MESSAGE_RATE_LIMIT_SENDER_REFILL_PER_SECOND: '1',
+    MESSAGE_RATE_LIMIT_CONVERSATION_CAPACITY: '3',
+    MESSAGE_RATE_LIMIT_CONVERSATION_REFILL_PER_SECOND: '0.5',
+  };
+  let service: SendRateLimitService;
+
+  // Stands in for the SendRateLimitBucket table
+  const createBucketRepository = () => {
+    const rows = new Map<string, SendRateLimitBucket>();
+    const manager = {
+      createQueryBuilder: () => {
+        let values: SendRateLimitBucket[] = [];
+        const builder = {
+          insert: () => builder,
+          into: () => builder,
+          values: (rowsToInsert: SendRateLimitBucket[]) => {
+            values = rowsToInsert;
+            return builder;
+          },
+          orIgnore: () => builder,
+          execute: () => {
+            values
+              .filter((row) => !rows.has(row.key))
+              .forEach((row) => rows.set(row.key, { ...row }));
+            return Promise.resolve();
+          },
+        };
+        return builder;
+      },
+      find: (
+        _entity: unknown,
+        options: { where: { key: { value: string[] } } },
+      ) =>
+        Promise.resolve(
+          options.where.key.value
+            .filter((key) => rows.has(key))
+            .map((key) => ({ ...rows.get(key)! })),
+        ),
+      save: (_entity: unknown, buckets: SendRateLimitBucket[]) => {
+        buckets.forEach((bucket) => rows.set(bucket.key, { ...bucket }));
+        return Promise.resolve();
+      },
+    };
+
+    return {
+      manager: {
+        transaction: async (work: (m: typeof manager) => Promise<void>) =>
+          await work(manager),
+      },
+      delete: jest.fn(),
+    } as unknown as Repository<SendRateLimitBucket>;
+  };
+
+  const sendTimes = async (
+    count: number,
+    conversationId: string,
+    now: number,
+  ) => {
+    for (let i = 0; i < count; i++) {
+      await service.consume('user-1', conversationId, now);
+    }
+  };
+
+  const rejection = async (conversationId: string, now: number) => {
+    try {
+      await service.consume('user-1', conversationId, now);
+    } catch (error) {
+      return error as MessageRateLimitException;
+    }
+    throw new Error('Expected the send to be rate limited');
+  };
+
+  beforeEach(() => {
+    service = new SendRateLimitService(createBucketRepository(), {
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+  });
+
+  it('should reject a burst beyond the conversation capacity with a retry delay', async () => {
+    await sendTimes(3, 'conversation-1', 0);
+
+    const error = await rejection('conversation-1', 0);
+    expect(error).toBeInstanceOf(MessageRateLimitException);
+    expect(error.getStatus()).toBe(429);
+    expect(error.retryAfter).toBe(2);
+  });
+
+  it('should apply the sender limit across conversations', async () => {
+    await sendTimes(3, 'conversation-1', 0);
+    await sendTimes(2, 'conversation-2', 0);
+
+    expect((await rejection('conversation-3', 0)).retryAfter).toBe(1);
+  });
+
+  it('should allow sending again once tokens have refilled', async () => {
+    await sendTimes(3, 'conversation-1', 0);
+
+    await expect(
+      service.consume('user-1', 'conversation-1', 2000),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should not spend tokens on rejected sends', async () => {
+    await sendTimes(3, 'conversation-1', 0);
+    await rejection('conversation-1', 0);
+    await rejection('conversation-1', 0);
+
+    // Two sender tokens are still left for other conversations
+    await sendTimes(2, 'conversation-2', 0);
+  });
+
+  it('should keep limits separate per sender', async () => {
+    await sendTimes(3, 'conversation-1', 0);
+
+    await expect(
+      service.consume('user-2', 'conversation-1', 0),
+    ).resolves.toBeUndefined();
+  });
+});
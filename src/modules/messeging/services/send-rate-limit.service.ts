@@ -0,0 +1,173 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, In, LessThan, Repository } from 'typeorm';
+import { SendRateLimitBucket } from '../entities/send-rate-limit-bucket.entity';
+
+const DEFAULT_SENDER_CAPACITY = 30;
+const DEFAULT_SENDER_REFILL_PER_SECOND = 2;
+const DEFAULT_CONVERSATION_CAPACITY = 15;
+const DEFAULT_CONVERSATION_REFILL_PER_SECOND = 1;
+// Idle buckets have refilled completely and can be dropped
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const RATE_LIMITED_ERROR_CODE = 'RATE_LIMITED';
+
+interface BucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Thrown when a sender runs out of message allowance; maps to HTTP 429
+ */
+export class MessageRateLimitException extends HttpException {
+  constructor(readonly retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: RATE_LIMITED_ERROR_CODE,
+        message: `Too many messages, try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Token buckets limiting how fast a user can send, overall and within one conversation.
+ * Buckets live in Postgres, so the limit holds across instances
+ */
+@Injectable()
+export class SendRateLimitService {
+  private readonly senderLimit: BucketLimit;
+  private readonly conversationLimit: BucketLimit;
+  private lastSweepAt = Date.now();
+
+  constructor(
+    @InjectRepository(SendRateLimitBucket)
+    private bucketRepository: Repository<SendRateLimitBucket>,
+    configService: ConfigService,
+  ) {
+    this.senderLimit = {
+      capacity: Number(
+        configService.get('MESSAGE_RATE_LIMIT_SENDER_CAPACITY') ??
+          DEFAULT_SENDER_CAPACITY,
+      ),
+      refillPerSecond: Number(
+        configService.get('MESSAGE_RATE_LIMIT_SENDER_REFILL_PER_SECOND') ??
+          DEFAULT_SENDER_REFILL_PER_SECOND,
+      ),
+    };
+    this.conversationLimit = {
+      capacity: Number(
+        configService.get('MESSAGE_RATE_LIMIT_CONVERSATION_CAPACITY') ??
+          DEFAULT_CONVERSATION_CAPACITY,
+      ),
+      refillPerSecond: Number(
+        configService.get(
+          'MESSAGE_RATE_LIMIT_CONVERSATION_REFILL_PER_SECOND',
+        ) ?? DEFAULT_CONVERSATION_REFILL_PER_SECOND,
+      ),
+    };
+  }
+
+  /**
+   * Take one send from the sender's allowance, throwing when either bucket is empty
+   */
+  async consume(
+    fromId: string,
+    conversationId: string,
+    now = Date.now(),
+  ): Promise<void> {
+    await this.sweep(now);
+
+    const limits = new Map<string, BucketLimit>([
+      [`sender:${fromId}`, this.senderLimit],
+      [`conversation:${conversationId}:${fromId}`, this.conversationLimit],
+    ]);
+
+    await this.bucketRepository.manager.transaction(async (manager) => {
+      const buckets = await this.lockBuckets(limits, now, manager);
+      buckets.forEach((bucket) =>
+        this.refill(bucket, limits.get(bucket.key)!, now),
+      );
+
+      // Nothing is taken unless both buckets have a token, so a rejected send costs nothing
+      const retryAfter = Math.max(
+        0,
+        ...buckets
+          .filter((bucket) => bucket.tokens < 1)
+          .map((bucket) =>
+            Math.ceil(
+              (1 - bucket.tokens) / limits.get(bucket.key)!.refillPerSecond,
+            ),
+          ),
+      );
+      if (retryAfter > 0) {
+        throw new MessageRateLimitException(retryAfter);
+      }
+
+      buckets.forEach((bucket) => (bucket.tokens -= 1));
+      await manager.save(SendRateLimitBucket, buckets);
+    });
+  }
+
+  // Missing buckets start full; locking in key order keeps concurrent sends from deadlocking
+  private async lockBuckets(
+    limits: Map<string, BucketLimit>,
+    now: number,
+    manager: EntityManager,
+  ): Promise<SendRateLimitBucket[]> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(SendRateLimitBucket)
+      .values(
+        [...limits].map(([key, limit]) => ({
+          key,
+          tokens: limit.capacity,
+          updatedAt: new Date(now),
+        })),
+      )
+      .orIgnore()
+      .execute();
+
+    return await manager.find(SendRateLimitBucket, {
+      where: { key: In([...limits.keys()]) },
+      order: { key: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+  }
+
+  private refill(
+    bucket: SendRateLimitBucket,
+    limit: BucketLimit,
+    now: number,
+  ): void {
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt.getTime()) / 1000;
+    bucket.tokens = Math.min(
+      limit.capacity,
+      bucket.tokens + elapsedSeconds * limit.refillPerSecond,
+    );
+    bucket.updatedAt = new Date(now);
+  }
+
+  private async sweep(now: number): Promise<void> {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweepAt = now;
+
+    const fullRefillMs =
+      Math.max(
+        this.senderLimit.capacity / this.senderLimit.refillPerSecond,
+        this.conversationLimit.capacity /
+          this.conversationLimit.refillPerSecond,
+      ) * 1000;
+    await this.bucketRepository.delete({
+      updatedAt: LessThan(new Date(now - fullRefillMs)),
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TranscriptService, TranscriptFormat } from './transcript.service';
+import { AttachmentService } from './attachment.service';
+import { MessageService } from './message.service';
+import { Message } from '../entities/message.entity';
+import { MessageReceipt } from '../entities/message-receipt.entity';
+import { Conversation } from '../entities/conversation.entity';
+
+describe('TranscriptService', () => {
+  let service: TranscriptService;
+  let queryBuilder: Record<string, jest.Mock>;
+  let messageService: { excludeHiddenMessages: jest.Mock };
+
+  const conversation = {
+    id: 'c0a80101-0000-4000-8000-000000000001',
+    userIds: ['alice', 'bob'],
+    title: 'Plumbing booking',
+  } as Conversation;
+
+  const message = (overrides: Partial<Message> = {}): Message =>
+    ({
+      id: 'c0a80101-0000-4000-8000-0000000000aa',
+      content: 'Hello',
+      fromId: 'alice',
+      toId: 'bob',
+      conversationId: conversation.id,
+      replyToId: null,
+      createdAt: new Date('2025-01-01T10:00:00Z'),
+      deliveredAt: new Date('2025-01-01T10:00:01Z'),
+      receivedAt: new Date('2025-01-01T10:05:00Z'),
+      editedAt: null,
+      deletedAt: null,
+      ...overrides,
+    }) as Message;
+
+  const collect = async (
+    format: TranscriptFormat,
+    hiddenFor: string | null = null,
+  ): Promise<string> => {
+    let output = '';
+    for await (const chunk of service.render(
+      conversation,
+      format,
+      hiddenFor,
+      new Date('2025-02-01T00:00:00Z'),
+    )) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  beforeEach(async () => {
+    messageService = {
+      excludeHiddenMessages: jest.fn((builder: unknown) => builder),
+    };
+    queryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue({
+        entities: [
+          message(),
+          message({
+            id: 'c0a80101-0000-4000-8000-0000000000bb',
+            content: '=cmd, "quoted"\nsecond line',
+            fromId: 'bob',
+            toId: null,
+            receivedAt: null,
+          }),
+        ],
+        raw: [],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TranscriptService,
+        {
+          provide: getRepositoryToken(Message),
+          useValue: { createQueryBuilder: () => queryBuilder },
+        },
+        {
+          provide: getRepositoryToken(MessageReceipt),
+          useValue: {
+            find: jest.fn().mockResolvedValue([
+              {
+                messageId: 'c0a80101-0000-4000-8000-0000000000bb',
+                userId: 'alice',
+                readAt: new Date('2025-01-01T11:00:00Z'),
+              },
+            ]),
+          },
+        },
+        {
+          provide: AttachmentService,
+          useValue: {
+            getAttachmentsForMessages: jest.fn().mockResolvedValue(new Map()),
+          },
+        },
+        { provide: MessageService, useValue: messageService },
+      ],
+    }).compile();
+
+    service = module.get<TranscriptService>(TranscriptService);
+  });
+
+  it('should stream valid JSON with participants and read times', async () => {
+    const transcript = JSON.parse(await collect('json')) as {
+      participants: string[];
+      messages: Array<{ readBy: unknown[] }>;
+    };
+
+    expect(transcript.participants).toEqual(['alice', 'bob']);
+    expect(transcript.messages).toHaveLength(2);
+    expect(transcript.messages[0].readBy).toEqual([
+      { userId: 'bob', readAt: '2025-01-01T10:05:00.000Z' },
+    ]);
+    expect(transcript.messages[1].readBy).toEqual([
+      { userId: 'alice', readAt: '2025-01-01T11:00:00.000Z' },
+    ]);
+  });
+
+  it('should escape CSV fields and neutralise formulas', async () => {
+    const rows = (await collect('csv')).split('\r\n');
+
+    expect(rows[0]).toBe(
+      'id,createdAt,fromId,toId,content,replyToId,attachments,deliveredAt,readBy,editedAt,deletedAt',
+    );
+    expect(rows[2]).toContain(`"'=cmd, ""quoted""\nsecond line"`);
+  });
+
+  it('should render a readable text transcript', async () => {
+    const transcript = await collect('txt');
+
+    expect(transcript).toContain('Participants: alice, bob');
+    expect(transcript).toContain('[2025-01-01T10:00:00.000Z] alice -> bob:');
+    expect(transcript).toContain('  second line');
+    expect(transcript).toContain('(read by alice at 2025-01-01T11:00:00.000Z)');
+  });
+
+  it('should leave out messages the exporting participant deleted for themselves', async () => {
+    await collect('json', 'alice');
+
+    expect(messageService.excludeHiddenMessages).toHaveBeenCalledWith(
+      queryBuilder,
+      'alice',
+    );
+  });
+
+  it('should include every message in staff exports', async () => {
+    await collect('json');
+
+    expect(messageService.excludeHiddenMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,317 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Conversation } from '../entities/conversation.entity';
+import { Message } from '../entities/message.entity';
+import { MessageReceipt } from '../entities/message-receipt.entity';
+import { AttachmentService } from './attachment.service';
+import { MessageService } from './message.service';
+import {
+  CURSOR_TIMESTAMP_FORMAT,
+  MessageCursor,
+} from '../utils/message-cursor';
+
+export type TranscriptFormat = 'json' | 'csv' | 'txt';
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'fromId',
+  'toId',
+  'content',
+  'replyToId',
+  'attachments',
+  'deliveredAt',
+  'readBy',
+  'editedAt',
+  'deletedAt',
+];
+
+interface TranscriptEntry {
+  id: string;
+  createdAt: string;
+  fromId: string;
+  toId: string | null;
+  content: string;
+  replyToId: string | null;
+  attachments: Array<{
+    id: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+  }>;
+  deliveredAt: string | null;
+  readBy: Array<{ userId: string; readAt: string }>;
+  editedAt: string | null;
+  deletedAt: string | null;
+}
+
+@Injectable()
+export class TranscriptService {
+  constructor(
+    @InjectRepository(Message)
+    private messageRepository: Repository<Message>,
+    @InjectRepository(MessageReceipt)
+    private receiptRepository: Repository<MessageReceipt>,
+    private attachmentService: AttachmentService,
+    private messageService: MessageService,
+  ) {}
+
+  getContentType(format: TranscriptFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  getFileName(conversation: Conversation, format: TranscriptFormat): string {
+    return `conversation-${conversation.id}.${format}`;
+  }
+
+  /**
+   * Render the whole history of a conversation, oldest first, a batch of messages at a time;
+   * messages `hiddenFor` deleted for themselves are left out
+   */
+  render(
+    conversation: Conversation,
+    format: TranscriptFormat,
+    hiddenFor: string | null = null,
+    exportedAt = new Date(),
+  ): AsyncGenerator<string> {
+    switch (format) {
+      case 'csv':
+        return this.renderCsv(conversation, hiddenFor);
+      case 'txt':
+        return this.renderText(conversation, hiddenFor, exportedAt);
+      default:
+        return this.renderJson(conversation, hiddenFor, exportedAt);
+    }
+  }
+
+  private async *renderJson(
+    conversation: Conversation,
+    hiddenFor: string | null,
+    exportedAt: Date,
+  ): AsyncGenerator<string> {
+    const header = {
+      conversationId: conversation.id,
+      title: conversation.title,
+      participants: conversation.userIds,
+      exportedAt: exportedAt.toISOString(),
+    };
+    // Written piecewise so the message array never has to be held in memory
+    yield `${JSON.stringify(header).slice(0, -1)},"messages":[`;
+
+    let first = true;
+    for await (const entries of this.readEntries(conversation, hiddenFor)) {
+      const chunk = entries.map((entry) => JSON.stringify(entry)).join(',');
+      yield first ? chunk : `,${chunk}`;
+      first = false;
+    }
+
+    yield ']}\n';
+  }
+
+  private async *renderCsv(
+    conversation: Conversation,
+    hiddenFor: string | null,
+  ): AsyncGenerator<string> {
+    yield `${CSV_COLUMNS.join(',')}\r\n`;
+
+    for await (const entries of this.readEntries(conversation, hiddenFor)) {
+      yield entries
+        .map((entry) =>
+          [
+            entry.id,
+            entry.createdAt,
+            entry.fromId,
+            entry.toId,
+            entry.content,
+            entry.replyToId,
+            entry.attachments
+              .map((attachment) => attachment.fileName)
+              .join('; '),
+            entry.deliveredAt,
+            entry.readBy
+              .map((receipt) => `${receipt.userId} ${receipt.readAt}`)
+              .join('; '),
+            entry.editedAt,
+            entry.deletedAt,
+          ]
+            .map((value) => this.toCsvField(value))
+            .join(','),
+        )
+        .map((row) => `${row}\r\n`)
+        .join('');
+    }
+  }
+
+  private async *renderText(
+    conversation: Conversation,
+    hiddenFor: string | null,
+    exportedAt: Date,
+  ): AsyncGenerator<string> {
+    yield [
+      `Conversation: ${conversation.title ?? conversation.id}`,
+      `Conversation ID: ${conversation.id}`,
+      `Participants: ${conversation.userIds.join(', ')}`,
+      `Exported at: ${exportedAt.toISOString()}`,
+      '',
+      '',
+    ].join('\n');
+
+    for await (const entries of this.readEntries(conversation, hiddenFor)) {
+      yield entries.map((entry) => this.toTextBlock(entry)).join('');
+    }
+  }
+
+  private toTextBlock(entry: TranscriptEntry): string {
+    const recipient = entry.toId ? ` -> ${entry.toId}` : '';
+    const lines = [
+      `[${entry.createdAt}] ${entry.fromId}${recipient}:`,
+      ...entry.content.split(/\r?\n/).map((line) => `  ${line}`),
+    ];
+
+    if (entry.replyToId) {
+      lines.push(`  (reply to ${entry.replyToId})`);
+    }
+    for (const attachment of entry.attachments) {
+      lines.push(
+        `  (attachment: ${attachment.fileName}, ${attachment.mimeType}, ${attachment.size} bytes)`,
+      );
+    }
+    if (entry.editedAt) {
+      lines.push(`  (edited at ${entry.editedAt})`);
+    }
+    if (entry.deletedAt) {
+      lines.push(`  (deleted at ${entry.deletedAt})`);
+    }
+    if (entry.deliveredAt) {
+      lines.push(`  (delivered at ${entry.deliveredAt})`);
+    }
+    for (const receipt of entry.readBy) {
+      lines.push(`  (read by ${receipt.userId} at ${receipt.readAt})`);
+    }
+
+    return `${lines.join('\n')}\n\n`;
+  }
+
+  // Keyset pagination on (createdAt, id) so a long history is read in bounded batches
+  private async *readEntries(
+    conversation: Conversation,
+    hiddenFor: string | null,
+  ): AsyncGenerator<TranscriptEntry[]> {
+    let cursor: MessageCursor | null = null;
+
+    for (;;) {
+      const queryBuilder = this.messageRepository
+        .createQueryBuilder('message')
+        .addSelect(
+          `to_char(message.createdAt, '${CURSOR_TIMESTAMP_FORMAT}')`,
+          'cursor_timestamp',
+        )
+        .where('message.conversationId = :conversationId', {
+          conversationId: conversation.id,
+        });
+
+      if (hiddenFor) {
+        this.messageService.excludeHiddenMessages(queryBuilder, hiddenFor);
+      }
+
+      if (cursor) {
+        queryBuilder.andWhere(
+          '(message.createdAt, message.id) > (CAST(:cursorTimestamp AS timestamp), CAST(:cursorId AS uuid))',
+          { cursorTimestamp: cursor.timestamp, cursorId: cursor.id },
+        );
+      }
+
+      const { entities, raw } = await queryBuilder
+        .orderBy('message.createdAt', 'ASC')
+        .addOrderBy('message.id', 'ASC')
+        .limit(EXPORT_BATCH_SIZE)
+        .getRawAndEntities<{ cursor_timestamp: string }>();
+
+      if (entities.length === 0) {
+        return;
+      }
+
+      yield await this.toEntries(entities);
+
+      if (entities.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+
+      const lastIndex = entities.length - 1;
+      cursor = {
+        timestamp: raw[lastIndex].cursor_timestamp,
+        id: entities[lastIndex].id,
+      };
+    }
+  }
+
+  private async toEntries(messages: Message[]): Promise<TranscriptEntry[]> {
+    const messageIds = messages.map((message) => message.id);
+    const attachments =
+      await this.attachmentService.getAttachmentsForMessages(messageIds);
+
+    // Group-addressed messages are read per participant through receipts
+    const groupMessageIds = messages
+      .filter((message) => !message.toId)
+      .map((message) => message.id);
+    const receipts = groupMessageIds.length
+      ? await this.receiptRepository.find({
+          where: { messageId: In(groupMessageIds) },
+          order: { readAt: 'ASC' },
+        })
+      : [];
+    const readsByMessage = new Map<string, TranscriptEntry['readBy']>();
+    for (const receipt of receipts) {
+      if (!receipt.readAt) {
+        continue;
+      }
+      readsByMessage.set(receipt.messageId, [
+        ...(readsByMessage.get(receipt.messageId) ?? []),
+        { userId: receipt.userId, readAt: receipt.readAt.toISOString() },
+      ]);
+    }
+
+    return messages.map((message) => ({
+      id: message.id,
+      createdAt: message.createdAt.toISOString(),
+      fromId: message.fromId,
+      toId: message.toId,
+      content: message.content,
+      replyToId: message.replyToId,
+      attachments: (attachments.get(message.id) ?? []).map((attachment) => ({
+        id: attachment.id,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      })),
+      deliveredAt: message.deliveredAt?.toISOString() ?? null,
+      readBy:
+        message.toId && message.receivedAt
+          ? [{ userId: message.toId, readAt: message.receivedAt.toISOString() }]
+          : (readsByMessage.get(message.id) ?? []),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      deletedAt: message.deletedAt?.toISOString() ?? null,
+    }));
+  }
+
+  private toCsvField(value: string | null): string {
+    if (value === null) {
+      return '';
+    }
+
+    // Spreadsheet apps evaluate cells starting with these characters as formulas
+    const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safeValue)
+      ? `"${safeValue.replace(/"/g, '""')}"`
+      : safeValue;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './storage-driver.interface';
+export * from './local-storage.driver';
@@ -0,0 +1,48 @@
+import { Logger, NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+// Default driver: files under ATTACHMENTS_STORAGE_PATH on the local disk
+export class LocalStorageDriver implements StorageDriver {
+  private readonly logger = new Logger(LocalStorageDriver.name);
+  private readonly rootPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = resolve(rootPath);
+    this.logger.log(`Storing attachments on local disk in ${this.rootPath}`);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      await stat(filePath);
+    } catch {
+      throw new NotFoundException('Attachment file not found');
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  // Keys are generated server-side, but never let one escape the storage root
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.rootPath, key);
+    if (!filePath.startsWith(this.rootPath + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,12 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Backend that stores attachment blobs; keys are opaque, driver-relative paths
+ */
+export interface StorageDriver {
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  createReadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
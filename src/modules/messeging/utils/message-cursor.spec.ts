@@ -0,0 +1,42 @@
+import { BadRequestException } from '@nestjs/common';
+import { decodeMessageCursor, encodeMessageCursor } from './message-cursor';
+
+describe('message cursor', () => {
+  const cursor = {
+    timestamp: '2024-05-01 10:15:30.123456',
+    id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  };
+
+  it('round-trips a cursor', () => {
+    expect(decodeMessageCursor(encodeMessageCursor(cursor))).toEqual(cursor);
+  });
+
+  it('produces a URL-safe value', () => {
+    expect(encodeMessageCursor(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects values that are not cursors', () => {
+    expect(() => decodeMessageCursor('not-a-cursor')).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      decodeMessageCursor(
+        Buffer.from(JSON.stringify({ id: cursor.id })).toString('base64url'),
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects cursors with a malformed timestamp or id', () => {
+    const badTimestamp = Buffer.from(
+      JSON.stringify(["2024-05-01'; DROP TABLE", cursor.id]),
+    ).toString('base64url');
+    const badId = Buffer.from(
+      JSON.stringify([cursor.timestamp, 'abc']),
+    ).toString('base64url');
+
+    expect(() => decodeMessageCursor(badTimestamp)).toThrow(
+      BadRequestException,
+    );
+    expect(() => decodeMessageCursor(badId)).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,53 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Postgres format used to read cursor timestamps with full microsecond precision,
+ * since a JS Date would truncate them to milliseconds and break keyset comparisons
+ */
+export const CURSOR_TIMESTAMP_FORMAT = 'YYYY-MM-DD HH24:MI:SS.US';
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface MessageCursor {
+  timestamp: string;
+  id: string;
+}
+
+/**
+ * Encode a (timestamp, id) keyset position as an opaque URL-safe string
+ */
+export function encodeMessageCursor(cursor: MessageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.timestamp, cursor.id])).toString(
+    'base64url',
+  );
+}
+
+/**
+ * Decode a cursor produced by encodeMessageCursor, rejecting anything malformed
+ */
+export function decodeMessageCursor(value: string): MessageCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const [timestamp, id] = decoded as unknown[];
+  if (
+    typeof timestamp !== 'string' ||
+    typeof id !== 'string' ||
+    !TIMESTAMP_PATTERN.test(timestamp) ||
+    !UUID_PATTERN.test(id)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return { timestamp, id };
+}
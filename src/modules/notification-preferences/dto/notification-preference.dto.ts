@@ -0,0 +1,49 @@
+import {
+  IsOptional,
+  IsArray,
+  IsEnum,
+  IsIn,
+  Matches,
+  IsTimeZone,
+} from 'class-validator';
+import { EmailType } from '../../../common/enums/email-type.enum';
+import type { MessageEmailMode } from '../entities/notification-preference.entity';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class UpdateNotificationPreferencesDto {
+  // Replaces the whole list; mandatory types are ignored
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EmailType, { each: true })
+  disabledEmailTypes?: EmailType[];
+
+  @IsOptional()
+  @IsIn(['digest', 'immediate'], {
+    message: 'messageEmailMode must be either "digest" or "immediate"',
+  })
+  messageEmailMode?: MessageEmailMode;
+
+  // Pass null for both to turn quiet hours off
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be in HH:mm format' })
+  quietHoursStart?: string | null;
+
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be in HH:mm format' })
+  quietHoursEnd?: string | null;
+
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+}
+
+export class NotificationPreferencesResponseDto {
+  userId: string;
+  emailTypes: Record<EmailType, boolean>;
+  mandatoryEmailTypes: EmailType[];
+  messageEmailMode: MessageEmailMode;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timeZone: string;
+}
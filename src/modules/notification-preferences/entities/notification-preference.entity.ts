@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import { EmailType } from '../../../common/enums/email-type.enum';
+
+export type MessageEmailMode = 'digest' | 'immediate';
+
+// Users without a row get every email, with unread messages batched into digests
+@Entity('NotificationPreference')
+export class NotificationPreference {
+  @PrimaryColumn({ name: 'userId', type: 'varchar' })
+  userId: string;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  disabledEmailTypes: EmailType[];
+
+  @Column({ type: 'varchar', default: 'digest' })
+  messageEmailMode: MessageEmailMode;
+
+  // Local "HH:mm" times; emails due in between are held until the end
+  @Column({ type: 'varchar', nullable: true })
+  quietHoursStart: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  quietHoursEnd: string | null;
+
+  // IANA time zone the quiet hours are expressed in
+  @Column({ type: 'varchar', default: 'UTC' })
+  timeZone: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
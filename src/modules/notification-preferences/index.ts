@@ -0,0 +1,4 @@
+export * from './notification-preferences.module';
+export * from './notification-preferences.service';
+export * from './entities/notification-preference.entity';
+export * from './dto/notification-preference.dto';
@@ -0,0 +1,40 @@
+import { Controller, Get, Patch, Body, UseGuards } from '@nestjs/common';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+} from './dto/notification-preference.dto';
+
+@Controller('notification-preferences')
+@UseGuards(JwtAuthGuard)
+export class NotificationPreferencesController {
+  constructor(
+    private readonly notificationPreferencesService: NotificationPreferencesService,
+  ) {}
+
+  /**
+   * Get the current user's email notification preferences
+   */
+  @Get()
+  async getPreferences(
+    @CurrentUser('userId') userId: string,
+  ): Promise<NotificationPreferencesResponseDto> {
+    return this.notificationPreferencesService.getPreferences(userId);
+  }
+
+  /**
+   * Update the current user's email notification preferences
+   */
+  @Patch()
+  async updatePreferences(
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+    @CurrentUser('userId') userId: string,
+  ): Promise<NotificationPreferencesResponseDto> {
+    return this.notificationPreferencesService.updatePreferences(
+      userId,
+      updateDto,
+    );
+  }
+}
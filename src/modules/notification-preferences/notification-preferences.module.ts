@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationPreferencesController } from './notification-preferences.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([NotificationPreference]), AuthModule],
+  controllers: [NotificationPreferencesController],
+  providers: [NotificationPreferencesService],
+  exports: [NotificationPreferencesService],
+})
+export class NotificationPreferencesModule {}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { EmailType } from '../../common/enums/email-type.enum';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+  let repository: { findOne: jest.Mock; create: jest.Mock; save: jest.Mock };
+
+  const preference = (
+    overrides: Partial<NotificationPreference> = {},
+  ): NotificationPreference =>
+    ({
+      userId: 'user-1',
+      disabledEmailTypes: [],
+      messageEmailMode: 'digest',
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timeZone: 'UTC',
+      ...overrides,
+    }) as NotificationPreference;
+
+  beforeEach(async () => {
+    repository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((value: Partial<NotificationPreference>) => value),
+      save: jest.fn((value: NotificationPreference) => Promise.resolve(value)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        {
+          provide: getRepositoryToken(NotificationPreference),
+          useValue: repository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationPreferencesService>(
+      NotificationPreferencesService,
+    );
+  });
+
+  it('should send when the user has no preferences', async () => {
+    await expect(
+      service.getDeliveryDecision('user-1', EmailType.BOOKING_REMINDER),
+    ).resolves.toEqual({ action: 'send' });
+  });
+
+  it('should skip email types the user disabled', async () => {
+    repository.findOne.mockResolvedValue(
+      preference({ disabledEmailTypes: [EmailType.BOOKING_REMINDER] }),
+    );
+
+    await expect(
+      service.getDeliveryDecision('user-1', EmailType.BOOKING_REMINDER),
+    ).resolves.toEqual({ action: 'skip' });
+  });
+
+  it('should always send booking confirmations', async () => {
+    repository.findOne.mockResolvedValue(
+      preference({
+        disabledEmailTypes: [EmailType.BOOKING_CONFIRMATION],
+        quietHoursStart: '00:00',
+        quietHoursEnd: '23:59',
+      }),
+    );
+
+    await expect(
+      service.getDeliveryDecision('user-1', EmailType.BOOKING_CONFIRMATION),
+    ).resolves.toEqual({ action: 'send' });
+  });
+
+  it('should defer until quiet hours that wrap past midnight end', async () => {
+    repository.findOne.mockResolvedValue(
+      preference({
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        timeZone: 'Asia/Colombo',
+      }),
+    );
+
+    // 23:30 in Colombo (UTC+05:30)
+    const decision = await service.getDeliveryDecision(
+      'user-1',
+      EmailType.NEW_MESSAGE_OR_REVIEW,
+      new Date('2025-01-01T18:00:00Z'),
+    );
+
+    expect(decision).toEqual({
+      action: 'defer',
+      until: new Date('2025-01-02T01:30:00Z'),
+    });
+  });
+
+  it('should send outside of quiet hours', async () => {
+    repository.findOne.mockResolvedValue(
+      preference({ quietHoursStart: '22:00', quietHoursEnd: '07:00' }),
+    );
+
+    await expect(
+      service.getDeliveryDecision(
+        'user-1',
+        EmailType.NEW_MESSAGE_OR_REVIEW,
+        new Date('2025-01-01T12:00:00Z'),
+      ),
+    ).resolves.toEqual({ action: 'send' });
+  });
+
+  it('should not let mandatory types be disabled', async () => {
+    const result = await service.updatePreferences('user-1', {
+      disabledEmailTypes: [
+        EmailType.BOOKING_CONFIRMATION,
+        EmailType.BOOKING_REMINDER,
+      ],
+    });
+
+    expect(result.emailTypes[EmailType.BOOKING_CONFIRMATION]).toBe(true);
+    expect(result.emailTypes[EmailType.BOOKING_REMINDER]).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EmailType } from '../../common/enums/email-type.enum';
+import {
+  NotificationPreference,
+  MessageEmailMode,
+} from './entities/notification-preference.entity';
+import {
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+} from './dto/notification-preference.dto';
+
+// Transactional emails the user cannot opt out of or hold back
+export const MANDATORY_EMAIL_TYPES: EmailType[] = [
+  EmailType.BOOKING_CONFIRMATION,
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export type EmailDeliveryDecision =
+  | { action: 'send' }
+  | { action: 'skip' }
+  | { action: 'defer'; until: Date };
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectRepository(NotificationPreference)
+    private preferenceRepository: Repository<NotificationPreference>,
+  ) {}
+
+  /**
+   * Get the user's preferences, falling back to defaults
+   */
+  async getPreferences(
+    userId: string,
+  ): Promise<NotificationPreferencesResponseDto> {
+    const preference = await this.preferenceRepository.findOne({
+      where: { userId },
+    });
+
+    return this.mapPreferenceToDto(userId, preference);
+  }
+
+  /**
+   * Update only the preferences present in the DTO
+   */
+  async updatePreferences(
+    userId: string,
+    updateDto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesResponseDto> {
+    const preference =
+      (await this.preferenceRepository.findOne({ where: { userId } })) ??
+      this.preferenceRepository.create({
+        userId,
+        disabledEmailTypes: [],
+        messageEmailMode: 'digest',
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        timeZone: 'UTC',
+      });
+
+    if (updateDto.disabledEmailTypes !== undefined) {
+      preference.disabledEmailTypes = [
+        ...new Set(updateDto.disabledEmailTypes),
+      ].filter((type) => !MANDATORY_EMAIL_TYPES.includes(type));
+    }
+    if (updateDto.messageEmailMode !== undefined) {
+      preference.messageEmailMode = updateDto.messageEmailMode;
+    }
+    if (updateDto.quietHoursStart !== undefined) {
+      preference.quietHoursStart = updateDto.quietHoursStart;
+    }
+    if (updateDto.quietHoursEnd !== undefined) {
+      preference.quietHoursEnd = updateDto.quietHoursEnd;
+    }
+    if (updateDto.timeZone !== undefined) {
+      preference.timeZone = updateDto.timeZone;
+    }
+
+    if (!preference.quietHoursStart !== !preference.quietHoursEnd) {
+      throw new BadRequestException(
+        'quietHoursStart and quietHoursEnd must be set together',
+      );
+    }
+
+    const savedPreference = await this.preferenceRepository.save(preference);
+    return this.mapPreferenceToDto(userId, savedPreference);
+  }
+
+  /**
+   * Whether unread-message emails should be batched or sent one by one
+   */
+  async getMessageEmailMode(userId: string): Promise<MessageEmailMode> {
+    const preference = await this.preferenceRepository.findOne({
+      where: { userId },
+    });
+
+    return preference?.messageEmailMode ?? 'digest';
+  }
+
+  /**
+   * Decide whether an email of this type goes out now, later or not at all
+   */
+  async getDeliveryDecision(
+    userId: string | undefined,
+    emailType: EmailType,
+    now = new Date(),
+  ): Promise<EmailDeliveryDecision> {
+    if (!userId || MANDATORY_EMAIL_TYPES.includes(emailType)) {
+      return { action: 'send' };
+    }
+
+    const preference = await this.preferenceRepository.findOne({
+      where: { userId },
+    });
+    if (!preference) {
+      return { action: 'send' };
+    }
+
+    if (preference.disabledEmailTypes.includes(emailType)) {
+      return { action: 'skip' };
+    }
+
+    const quietHoursEnd = this.getQuietHoursEnd(preference, now);
+    return quietHoursEnd
+      ? { action: 'defer', until: quietHoursEnd }
+      : { action: 'send' };
+  }
+
+  /**
+   * When the quiet hours currently in effect end, or null outside of them
+   */
+  private getQuietHoursEnd(
+    preference: NotificationPreference,
+    now: Date,
+  ): Date | null {
+    if (!preference.quietHoursStart || !preference.quietHoursEnd) {
+      return null;
+    }
+
+    const start = this.toMinutes(preference.quietHoursStart);
+    const end = this.toMinutes(preference.quietHoursEnd);
+    if (start === end) {
+      return null;
+    }
+
+    const current = this.getLocalMinutes(now, preference.timeZone);
+    // A window like 22:00-07:00 wraps past midnight
+    const inQuietHours =
+      start < end
+        ? current >= start && current < end
+        : current >= start || current < end;
+    if (!inQuietHours) {
+      return null;
+    }
+
+    const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const startOfMinute =
+      now.getTime() - now.getUTCSeconds() * 1000 - now.getUTCMilliseconds();
+    return new Date(startOfMinute + minutesLeft * 60 * 1000);
+  }
+
+  private getLocalMinutes(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value);
+
+    return hour * 60 + minute;
+  }
+
+  private toMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+  }
+
+  private mapPreferenceToDto(
+    userId: string,
+    preference: NotificationPreference | null,
+  ): NotificationPreferencesResponseDto {
+    const disabledEmailTypes = preference?.disabledEmailTypes ?? [];
+    const emailTypes = Object.fromEntries(
+      Object.values(EmailType).map((type) => [
+        type,
+        !disabledEmailTypes.includes(type),
+      ]),
+    ) as Record<EmailType, boolean>;
+
+    return {
+      userId,
+      emailTypes,
+      mandatoryEmailTypes: MANDATORY_EMAIL_TYPES,
+      messageEmailMode: preference?.messageEmailMode ?? 'digest',
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      timeZone: preference?.timeZone ?? 'UTC',
+    };
+  }
+}
@@ -3,6 +3,9 @@ export interface EmailEvent {
   data: {
     conversationId?: string;
     scheduleId?: string;
+    // Platform user ids, used to look up the recipients' notification preferences
+    customerId?: string;
+    providerId?: string;
     customerEmail: string;
     providerEmail: string;
     customerName: string;
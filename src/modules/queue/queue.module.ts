@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { QueueService } from './queue.service.js';
 import { EmailModule } from '../email/email.module';
+import { NotificationPreferencesModule } from '../notification-preferences/notification-preferences.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
 
 @Module({
-  imports: [EmailModule],
+  imports: [EmailModule, NotificationPreferencesModule, SchedulerModule],
   providers: [QueueService],
   exports: [QueueService],
 })
@@ -3,6 +3,26 @@ import * as amqp from 'amqplib';
 import { EmailService } from '../email/email.service';
 import { EmailEvent } from './interfaces/email-event.interface';
 import { EmailType } from '../../common/enums/email-type.enum';
+import { CreateEmailDto } from '../email/dto/create-email.dto';
+import { NotificationPreferencesService } from '../notification-preferences/notification-preferences.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+
+export const DEFERRED_EMAIL_JOB = 'email.deferred';
+
+interface DeferredEmailPayload {
+  emailId: string;
+  recipientId: string;
+  emailType: EmailType;
+  // Set for message emails, so they can be dropped once everything in them was read
+  conversationId?: string;
+  messageIds?: string[];
+}
+
+// Returns the ids among messageIds that the recipient has not read yet
+export type UnreadMessagesLookup = (
+  recipientId: string,
+  messageIds: string[],
+) => Promise<string[]>;
 
 @Injectable()
 export class QueueService implements OnModuleInit, OnModuleDestroy {
@@ -10,10 +30,20 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private channel: amqp.Channel | null = null;
   private readonly exchangeName = 'email_notifications';
   private readonly queueName = 'email_queue';
+  private unreadMessagesLookup: UnreadMessagesLookup | null = null;
 
-  constructor(private readonly emailService: EmailService) {}
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly notificationPreferencesService: NotificationPreferencesService,
+    private readonly schedulerService: SchedulerService,
+  ) {}
 
   async onModuleInit() {
+    // Emails held back by quiet hours are stored first and sent by the scheduler
+    this.schedulerService.registerHandler(DEFERRED_EMAIL_JOB, (payload) =>
+      this.sendDeferredEmail(payload as DeferredEmailPayload),
+    );
+
     await this.connect();
     await this.setupConsumer();
   }
@@ -235,32 +265,34 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private async sendBookingConfirmationEmails(data: EmailEvent['data']): Promise<void> {
     // Store and send email to customer (store-first-send-later pattern)
     try {
-      const customerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.customerEmail,
-        subject: '🎉 Booking Confirmation - Your Service is Confirmed!',
-        html: this.generateBookingConfirmationHtml(data, 'customer'),
-        emailType: EmailType.BOOKING_CONFIRMATION,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(customerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.customerEmail,
+          subject: '🎉 Booking Confirmation - Your Service is Confirmed!',
+          html: this.generateBookingConfirmationHtml(data, 'customer'),
+          emailType: EmailType.BOOKING_CONFIRMATION,
+          createdAt: new Date(),
+        },
+        data.customerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send customer booking confirmation email:', error);
     }
 
     // Store and send email to provider (store-first-send-later pattern)
     try {
-      const providerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.providerEmail,
-        subject: '📋 New Booking Confirmation - Service Request Confirmed',
-        html: this.generateBookingConfirmationHtml(data, 'provider'),
-        emailType: EmailType.BOOKING_CONFIRMATION,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(providerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.providerEmail,
+          subject: '📋 New Booking Confirmation - Service Request Confirmed',
+          html: this.generateBookingConfirmationHtml(data, 'provider'),
+          emailType: EmailType.BOOKING_CONFIRMATION,
+          createdAt: new Date(),
+        },
+        data.providerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send provider booking confirmation email:', error);
     }
@@ -269,32 +301,34 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private async sendBookingModificationEmails(data: EmailEvent['data']): Promise<void> {
     // Store and send email to customer (store-first-send-later pattern)
     try {
-      const customerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.customerEmail,
-        subject: '🔄 Booking Updated - Your Service Details Have Changed',
-        html: this.generateBookingModificationHtml(data, 'customer'),
-        emailType: EmailType.BOOKING_CANCELLATION_MODIFICATION,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(customerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.customerEmail,
+          subject: '🔄 Booking Updated - Your Service Details Have Changed',
+          html: this.generateBookingModificationHtml(data, 'customer'),
+          emailType: EmailType.BOOKING_CANCELLATION_MODIFICATION,
+          createdAt: new Date(),
+        },
+        data.customerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send customer booking modification email:', error);
     }
 
     // Store and send email to provider (store-first-send-later pattern)
     try {
-      const providerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.providerEmail,
-        subject: '🔄 Booking Updated - Service Details Have Changed',
-        html: this.generateBookingModificationHtml(data, 'provider'),
-        emailType: EmailType.BOOKING_CANCELLATION_MODIFICATION,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(providerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.providerEmail,
+          subject: '🔄 Booking Updated - Service Details Have Changed',
+          html: this.generateBookingModificationHtml(data, 'provider'),
+          emailType: EmailType.BOOKING_CANCELLATION_MODIFICATION,
+          createdAt: new Date(),
+        },
+        data.providerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send provider booking modification email:', error);
     }
@@ -303,32 +337,34 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private async sendBookingReminderEmails(data: EmailEvent['data']): Promise<void> {
     // Store and send reminder to customer (store-first-send-later pattern)
     try {
-      const customerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.customerEmail,
-        subject: '⏰ Service Reminder - Your Appointment is Coming Up',
-        html: this.generateBookingReminderHtml(data, 'customer'),
-        emailType: EmailType.BOOKING_REMINDER,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(customerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.customerEmail,
+          subject: '⏰ Service Reminder - Your Appointment is Coming Up',
+          html: this.generateBookingReminderHtml(data, 'customer'),
+          emailType: EmailType.BOOKING_REMINDER,
+          createdAt: new Date(),
+        },
+        data.customerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send customer booking reminder email:', error);
     }
 
     // Store and send reminder to provider (store-first-send-later pattern)
     try {
-      const providerEmailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.providerEmail,
-        subject: '⏰ Service Reminder - Upcoming Appointment',
-        html: this.generateBookingReminderHtml(data, 'provider'),
-        emailType: EmailType.BOOKING_REMINDER,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(providerEmailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.providerEmail,
+          subject: '⏰ Service Reminder - Upcoming Appointment',
+          html: this.generateBookingReminderHtml(data, 'provider'),
+          emailType: EmailType.BOOKING_REMINDER,
+          createdAt: new Date(),
+        },
+        data.providerId,
+      );
     } catch (error) {
       console.error('❌ Failed to send provider booking reminder email:', error);
     }
@@ -337,22 +373,118 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   private async sendMessageOrReviewEmails(data: EmailEvent['data']): Promise<void> {
     // Store and send notification to the recipient (store-first-send-later pattern)
     try {
-      const emailRecord = await this.emailService.queueEmailRecord({
-        userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
-        to: data.providerEmail, // For both messages and reviews, providerEmail is the recipient
-        subject: data.serviceName === 'New Message' ? '💬 New Message Received' :
-                (data.metadata?.serviceRequestId !== undefined) ? '🎯 Service Request Match' : '⭐ New Review Received',
-        html: this.generateMessageOrReviewHtml(data),
-        emailType: EmailType.NEW_MESSAGE_OR_REVIEW,
-        createdAt: new Date()
-      });
-
-      await this.emailService.sendAndUpdateSentAt(emailRecord.id);
+      await this.sendWithPreferences(
+        {
+          userId: undefined, // Use undefined instead of conversationId to avoid foreign key constraint issues
+          to: data.providerEmail, // For both messages and reviews, providerEmail is the recipient
+          subject: data.metadata?.digest
+            ? this.getMessageDigestSubject(data)
+            : data.serviceName === 'New Message'
+              ? '💬 New Message Received'
+              : data.metadata?.serviceRequestId !== undefined
+                ? '🎯 Service Request Match'
+                : '⭐ New Review Received',
+          html: data.metadata?.digest
+            ? this.generateMessageDigestHtml(data)
+            : this.generateMessageOrReviewHtml(data),
+          emailType: EmailType.NEW_MESSAGE_OR_REVIEW,
+          createdAt: new Date(),
+        },
+        data.providerId,
+        data.metadata?.digest
+          ? {
+              conversationId: data.conversationId,
+              messageIds: this.getMessageDigestIds(data),
+            }
+          : {},
+      );
     } catch (error) {
       console.error('❌ Failed to send message/review notification email:', error);
     }
   }
 
+  // Store and send an email unless the recipient opted out, holding it until their quiet hours end
+  private async sendWithPreferences(
+    email: CreateEmailDto,
+    recipientId?: string,
+    messages: Pick<DeferredEmailPayload, 'conversationId' | 'messageIds'> = {},
+  ): Promise<void> {
+    const decision =
+      await this.notificationPreferencesService.getDeliveryDecision(
+        recipientId,
+        email.emailType,
+      );
+
+    if (decision.action === 'skip') {
+      console.log(
+        `🔕 ${email.emailType} email to ${email.to} skipped - disabled by recipient`,
+      );
+      return;
+    }
+
+    const emailRecord = await this.emailService.queueEmailRecord(email);
+
+    if (decision.action === 'defer' && recipientId) {
+      await this.schedulerService.schedule(
+        DEFERRED_EMAIL_JOB,
+        {
+          emailId: emailRecord.id,
+          recipientId,
+          emailType: email.emailType,
+          ...messages,
+        },
+        decision.until,
+      );
+      console.log(
+        `🌙 ${email.emailType} email to ${email.to} deferred until ${decision.until.toISOString()}`,
+      );
+      return;
+    }
+
+    await this.emailService.sendAndUpdateSentAt(emailRecord.id);
+  }
+
+  /**
+   * Let the messaging module report which messages are still unread, so deferred message emails
+   * about conversations read in the meantime are dropped
+   */
+  registerUnreadMessagesLookup(lookup: UnreadMessagesLookup): void {
+    this.unreadMessagesLookup = lookup;
+  }
+
+  private async sendDeferredEmail(
+    payload: DeferredEmailPayload,
+  ): Promise<void> {
+    // The type may have been switched off while the email was waiting
+    const decision =
+      await this.notificationPreferencesService.getDeliveryDecision(
+        payload.recipientId,
+        payload.emailType,
+      );
+    if (decision.action === 'skip') {
+      console.log(
+        `🔕 Deferred email ${payload.emailId} dropped - disabled by recipient`,
+      );
+      return;
+    }
+
+    // The recipient may have caught up on the conversation while the email was waiting
+    if (payload.messageIds?.length && this.unreadMessagesLookup) {
+      const unreadMessageIds = await this.unreadMessagesLookup(
+        payload.recipientId,
+        payload.messageIds,
+      );
+      if (unreadMessageIds.length === 0) {
+        console.log(
+          `📭 Deferred email ${payload.emailId} dropped - conversation ${payload.conversationId} was read`,
+        );
+        return;
+      }
+    }
+
+    await this.emailService.sendAndUpdateSentAt(payload.emailId);
+  }
+
   private formatDate(dateString?: string): string {
     if (!dateString) return 'TBD';
     try {
@@ -498,6 +630,96 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     `;
   }
 
+  private getMessageDigestSubject(data: EmailEvent['data']): string {
+    const messages = data.metadata?.messages as unknown[] | undefined;
+    const count = messages?.length ?? 1;
+    const senders = this.getMessageDigestSenders(data);
+    return count === 1
+      ? `💬 New Message from ${senders}`
+      : `💬 ${count} New Messages from ${senders}`;
+  }
+
+  private getMessageDigestIds(data: EmailEvent['data']): string[] {
+    const messages = (data.metadata?.messages ?? []) as Array<{
+      messageId?: string;
+    }>;
+    return messages
+      .map((message) => message.messageId)
+      .filter((messageId): messageId is string => !!messageId);
+  }
+
+  // Group digests mix senders, so name each distinct one rather than whoever wrote first
+  private getMessageDigestSenders(data: EmailEvent['data']): string {
+    const messages = (data.metadata?.messages ?? []) as Array<{
+      senderName: string;
+    }>;
+    const names = [...new Set(messages.map((message) => message.senderName))];
+
+    if (names.length === 0) {
+      return data.customerName;
+    }
+    if (names.length === 1) {
+      return names[0];
+    }
+    if (names.length <= 3) {
+      return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    }
+    return `${names.slice(0, 2).join(', ')} and ${names.length - 2} others`;
+  }
+
+  // Message content comes from users, so it is escaped before going into the email
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private generateMessageDigestHtml(data: EmailEvent['data']): string {
+    const messages = (data.metadata?.messages ?? []) as Array<{
+      senderName: string;
+      content: string;
+      sentAt: string;
+    }>;
+    const messageItems = messages
+      .map(
+        (message) => `
+              <div style="background: #f8f9fa; padding: 15px 20px; border-radius: 8px; margin: 12px 0; border-left: 4px solid #667eea;">
+                <p style="margin: 0 0 6px 0; font-size: 13px; color: #666;">
+                  <strong>${this.escapeHtml(message.senderName)}</strong> · ${this.formatDate(message.sentAt)}
+                </p>
+                <p style="margin: 0; font-size: 15px; white-space: pre-wrap;">${this.escapeHtml(message.content)}</p>
+              </div>`,
+      )
+      .join('');
+
+    return `
+      <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center; color: white;">
+          <h1 style="margin: 0; font-size: 28px;">💬 ${messages.length === 1 ? 'New Message' : `${messages.length} New Messages`}</h1>
+          <p style="margin: 10px 0 0 0; font-size: 16px; opacity: 0.9;">You have unread messages from ${this.escapeHtml(this.getMessageDigestSenders(data))}</p>
+        </div>
+
+        <div style="padding: 40px 20px; background: white;">
+          <p style="font-size: 16px; margin-bottom: 25px;">Hi ${this.escapeHtml(data.providerName)},</p>
+
+          <p style="font-size: 16px; margin-bottom: 10px;">Here is what you missed in your conversation:</p>
+          ${messageItems}
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="#" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">Reply Now</a>
+          </div>
+
+          <div style="border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px; text-align: center; color: #666; font-size: 14px;">
+            <p>Best regards,<br>The Zia Team</p>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
   private generateMessageOrReviewHtml(data: EmailEvent['data']): string {
     const isMessage = data.serviceName === 'New Message';
     const isReview = data.serviceName === 'Service Review';
@@ -726,6 +948,42 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     await this.publishEmailEvent(event);
   }
 
+  // Method to send one email for several unread messages in a conversation
+  async sendMessageDigest(data: {
+    senderEmail: string;
+    recipientId?: string;
+    recipientEmail: string;
+    senderName: string;
+    recipientName: string;
+    conversationId: string;
+    messages: Array<{
+      messageId: string;
+      senderName: string;
+      content: string;
+      sentAt: string;
+    }>;
+  }): Promise<void> {
+    const event: EmailEvent = {
+      type: 'NEW_MESSAGE_OR_REVIEW',
+      data: {
+        customerEmail: data.senderEmail,
+        providerId: data.recipientId,
+        providerEmail: data.recipientEmail,
+        customerName: data.senderName,
+        providerName: data.recipientName,
+        conversationId: data.conversationId,
+        serviceName: 'New Message',
+        metadata: {
+          digest: true,
+          messages: data.messages,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.publishEmailEvent(event);
+  }
+
   private async close(): Promise<void> {
     try {
       if (this.channel) {
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type ScheduledJobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// Persisted delayed work, claimed by exactly one instance when it becomes due
+@Entity('ScheduledJob')
+@Index(['status', 'runAt'])
+@Index(['type', 'key'])
+export class ScheduledJob {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  // Name of the registered handler that runs the job
+  @Column({ type: 'varchar' })
+  type: string;
+
+  // Optional caller-defined key used to find or cancel the job later (e.g. a message id)
+  @Column({ type: 'varchar', nullable: true })
+  key: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  payload: Record<string, any>;
+
+  @Column({ type: 'timestamp' })
+  runAt: Date;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: ScheduledJobStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt: Date | null;
+
+  // Instance that claimed the job
+  @Column({ type: 'varchar', nullable: true })
+  lockedBy: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,3 @@
+export * from './scheduler.module';
+export * from './scheduler.service';
+export * from './entities/scheduled-job.entity';
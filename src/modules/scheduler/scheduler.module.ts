@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduledJob } from './entities/scheduled-job.entity';
+import { SchedulerService } from './scheduler.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ScheduledJob])],
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
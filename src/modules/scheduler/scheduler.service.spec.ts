@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SchedulerService } from './scheduler.service';
+import { ScheduledJob } from './entities/scheduled-job.entity';
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+  let repository: {
+    query: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  const dueJob = (overrides: Partial<ScheduledJob> = {}): ScheduledJob =>
+    ({
+      id: 'job-1',
+      type: 'test.job',
+      key: null,
+      payload: { value: 42 },
+      runAt: new Date(),
+      status: 'running',
+      attempts: 1,
+      ...overrides,
+    }) as ScheduledJob;
+
+  beforeEach(async () => {
+    const updateBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+    repository = {
+      query: jest.fn().mockResolvedValue([[{ id: 'job-1' }], 1]),
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn().mockReturnValue(updateBuilder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        { provide: getRepositoryToken(ScheduledJob), useValue: repository },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<SchedulerService>(SchedulerService);
+  });
+
+  it('should run claimed jobs with their payload and mark them completed', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler('test.job', handler);
+    repository.find.mockResolvedValue([dueJob()]);
+
+    await service.poll();
+
+    expect(handler).toHaveBeenCalledWith(
+      { value: 42 },
+      expect.objectContaining({ id: 'job-1' }),
+    );
+    expect(repository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.objectContaining({ status: 'completed' }),
+    );
+  });
+
+  it('should reschedule a failed job while attempts remain', async () => {
+    service.registerHandler(
+      'test.job',
+      jest.fn().mockRejectedValue(new Error('boom')),
+    );
+    repository.find.mockResolvedValue([dueJob({ attempts: 1 })]);
+
+    await service.poll();
+
+    expect(repository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.objectContaining({ status: 'pending', lastError: 'boom' }),
+    );
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    service.registerHandler(
+      'test.job',
+      jest.fn().mockRejectedValue(new Error('boom')),
+    );
+    repository.find.mockResolvedValue([dueJob({ attempts: 5 })]);
+
+    await service.poll();
+
+    expect(repository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.objectContaining({ status: 'failed', lastError: 'boom' }),
+    );
+  });
+
+  it('should fail jobs without a registered handler', async () => {
+    repository.find.mockResolvedValue([dueJob({ type: 'unknown.job' })]);
+
+    await service.poll();
+
+    expect(repository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.objectContaining({ status: 'failed' }),
+    );
+  });
+
+  it('should not query when there is nothing due', async () => {
+    repository.query.mockResolvedValue([[], 0]);
+
+    await service.poll();
+
+    expect(repository.find).not.toHaveBeenCalled();
+  });
+
+  it('should cancel by key prefix with LIKE wildcards escaped', async () => {
+    await service.cancelByKeyPrefix('test.job', 'conversation-1:user_1:');
+
+    const [criteria, changes] = repository.update.mock.calls[0] as [
+      { type: string; status: string; key: { value: string } },
+      unknown,
+    ];
+    expect(criteria).toMatchObject({ type: 'test.job', status: 'pending' });
+    expect(criteria.key.value).toBe('conversation-1:user\\_1:%');
+    expect(changes).toEqual({ status: 'cancelled' });
+  });
+
+  it('should reject registering two handlers for the same type', () => {
+    service.registerHandler('test.job', jest.fn());
+
+    expect(() => service.registerHandler('test.job', jest.fn())).toThrow();
+  });
+});
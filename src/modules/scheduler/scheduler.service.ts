@@ -0,0 +1,316 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Like, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { ScheduledJob } from './entities/scheduled-job.entity';
+
+export type ScheduledJobHandler = (
+  payload: Record<string, any>,
+  job: ScheduledJob,
+) => Promise<void>;
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_MAX_ATTEMPTS = 5;
+// A job still running after this long is assumed to belong to a crashed instance
+const DEFAULT_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly handlers = new Map<string, ScheduledJobHandler>();
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID()}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    @InjectRepository(ScheduledJob)
+    private jobRepository: Repository<ScheduledJob>,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (this.configService.get<string>('SCHEDULER_ENABLED') === 'false') {
+      this.logger.log('Scheduler poller disabled on this instance');
+      return;
+    }
+
+    const interval = Number(
+      this.configService.get('SCHEDULER_POLL_INTERVAL_MS') ??
+        DEFAULT_POLL_INTERVAL_MS,
+    );
+    this.pollTimer = setInterval(() => void this.poll(), interval);
+    this.logger.log(
+      `Scheduler polling every ${interval}ms as ${this.instanceId}`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Register the function that runs jobs of a type
+   */
+  registerHandler(type: string, handler: ScheduledJobHandler): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for job type ${type} is already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Persist a job to run at (or after) the given time
+   */
+  async schedule(
+    type: string,
+    payload: Record<string, any>,
+    runAt: Date,
+    key: string | null = null,
+  ): Promise<ScheduledJob> {
+    const job = this.jobRepository.create({
+      id: randomUUID(),
+      type,
+      key,
+      payload,
+      runAt,
+      status: 'pending',
+      attempts: 0,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    });
+
+    return await this.jobRepository.save(job);
+  }
+
+  /**
+   * Cancel pending jobs of a type by key, returning how many were cancelled
+   */
+  async cancel(type: string, keys: string | string[]): Promise<number> {
+    const keyList = Array.isArray(keys) ? keys : [keys];
+    if (keyList.length === 0) {
+      return 0;
+    }
+
+    const result = await this.jobRepository.update(
+      { type, key: In(keyList), status: 'pending' },
+      { status: 'cancelled' },
+    );
+
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Cancel pending jobs of a type whose key starts with the prefix, returning how many were cancelled
+   */
+  async cancelByKeyPrefix(type: string, keyPrefix: string): Promise<number> {
+    const escapedPrefix = keyPrefix.replace(/[\\%_]/g, '\\$&');
+    const result = await this.jobRepository.update(
+      { type, key: Like(`${escapedPrefix}%`), status: 'pending' },
+      { status: 'cancelled' },
+    );
+
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Atomically append a value to an array in the payload of the pending job with this key;
+   * returns false when there is no such job (e.g. it was already claimed)
+   */
+  async appendToPending(
+    type: string,
+    key: string,
+    field: string,
+    value: unknown,
+  ): Promise<boolean> {
+    const [rows]: [Array<{ id: string }>, number] =
+      await this.jobRepository.query(
+        `UPDATE "ScheduledJob"
+         SET "payload" = jsonb_set("payload", ARRAY[$3], COALESCE("payload" -> $3, '[]'::jsonb) || jsonb_build_array($4::jsonb)),
+             "updatedAt" = NOW()
+         WHERE "type" = $1 AND "key" = $2 AND "status" = 'pending'
+         RETURNING id`,
+        [type, key, field, JSON.stringify(value)],
+      );
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Atomically remove the array entries containing `match` from the payload of the pending job
+   * with this key; returns false when no pending job held such an entry
+   */
+  async removeFromPending(
+    type: string,
+    key: string,
+    field: string,
+    match: Record<string, unknown>,
+  ): Promise<boolean> {
+    const [rows]: [Array<{ id: string }>, number] =
+      await this.jobRepository.query(
+        `UPDATE "ScheduledJob"
+         SET "payload" = jsonb_set("payload", ARRAY[$3], COALESCE(
+               (SELECT jsonb_agg(entry) FROM jsonb_array_elements("payload" -> $3) entry WHERE NOT entry @> $4::jsonb),
+               '[]'::jsonb)),
+             "updatedAt" = NOW()
+         WHERE "type" = $1 AND "key" = $2 AND "status" = 'pending'
+           AND "payload" -> $3 @> jsonb_build_array($4::jsonb)
+         RETURNING id`,
+        [type, key, field, JSON.stringify(match)],
+      );
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Find the pending job of a type with the given key, if any
+   */
+  async findPending(type: string, key: string): Promise<ScheduledJob | null> {
+    return await this.jobRepository.findOne({
+      where: { type, key, status: 'pending' },
+    });
+  }
+
+  /**
+   * Claim due jobs and run them; overlapping ticks are skipped
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.releaseStaleJobs();
+
+      const jobs = await this.claimDueJobs();
+      for (const job of jobs) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      this.logger.error(`Scheduler poll failed: ${(error as Error).message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // SKIP LOCKED lets several instances poll the same table without claiming a job twice
+  private async claimDueJobs(): Promise<ScheduledJob[]> {
+    const batchSize = Number(
+      this.configService.get('SCHEDULER_BATCH_SIZE') ?? DEFAULT_BATCH_SIZE,
+    );
+
+    const [rows]: [Array<{ id: string }>, number] =
+      await this.jobRepository.query(
+        `UPDATE "ScheduledJob"
+         SET "status" = 'running', "lockedAt" = NOW(), "lockedBy" = $1,
+             "attempts" = "attempts" + 1, "updatedAt" = NOW()
+         WHERE id IN (
+           SELECT id FROM "ScheduledJob"
+           WHERE "status" = 'pending' AND "runAt" <= NOW()
+           ORDER BY "runAt"
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id`,
+        [this.instanceId, batchSize],
+      );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return await this.jobRepository.find({
+      where: { id: In(rows.map((row) => row.id)) },
+      order: { runAt: 'ASC' },
+    });
+  }
+
+  private async releaseStaleJobs(): Promise<void> {
+    const lockTimeout = Number(
+      this.configService.get('SCHEDULER_LOCK_TIMEOUT_MS') ??
+        DEFAULT_LOCK_TIMEOUT_MS,
+    );
+
+    await this.jobRepository
+      .createQueryBuilder()
+      .update(ScheduledJob)
+      .set({ status: 'pending', lockedAt: null, lockedBy: null })
+      .where('status = :status', { status: 'running' })
+      .andWhere('lockedAt < :staleBefore', {
+        staleBefore: new Date(Date.now() - lockTimeout),
+      })
+      .execute();
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.finishJob(
+        job,
+        'failed',
+        `No handler for job type ${job.type}`,
+      );
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await this.finishJob(job, 'completed', null);
+    } catch (error) {
+      const message = (error as Error).message;
+      const maxAttempts = Number(
+        this.configService.get('SCHEDULER_MAX_ATTEMPTS') ??
+          DEFAULT_MAX_ATTEMPTS,
+      );
+
+      if (job.attempts >= maxAttempts) {
+        this.logger.error(
+          `Job ${job.id} (${job.type}) failed permanently: ${message}`,
+        );
+        await this.finishJob(job, 'failed', message);
+        return;
+      }
+
+      // Exponential backoff: 2s, 4s, 8s, ...
+      const retryAt = new Date(Date.now() + 2 ** job.attempts * 1000);
+      this.logger.warn(
+        `Job ${job.id} (${job.type}) failed, retrying at ${retryAt.toISOString()}: ${message}`,
+      );
+      await this.jobRepository.update(
+        { id: job.id, lockedBy: this.instanceId },
+        {
+          status: 'pending',
+          runAt: retryAt,
+          lockedAt: null,
+          lockedBy: null,
+          lastError: message,
+        },
+      );
+    }
+  }
+
+  private async finishJob(
+    job: ScheduledJob,
+    status: 'completed' | 'failed',
+    lastError: string | null,
+  ): Promise<void> {
+    await this.jobRepository.update(
+      { id: job.id, lockedBy: this.instanceId },
+      { status, lockedAt: null, lastError },
+    );
+  }
+}